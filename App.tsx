@@ -1 +1,377 @@
-// Logic moved to index.tsx for consolidated deployment reliability.
+import React, { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Plus, Database, Calculator, Copy, Scale, AlertTriangle, X, ArchiveRestore, BookMarked } from 'lucide-react';
+import { AppSettings, BasicRate, MatchAlias, RateAnalysis, RateSearch, SORItem, Tender } from './types.ts';
+import RateForm from './Components/RateForm.tsx';
+import RateList from './Components/RateList.tsx';
+import TenderProcessor from './Components/TenderProcessor.tsx';
+import TenderList from './Components/TenderList.tsx';
+import RateAnalysisEditor from './Components/RateAnalysisEditor.tsx';
+import BasicRatesManager from './Components/BasicRatesManager.tsx';
+import RateHistory from './Components/RateHistory.tsx';
+import ImportReconciler from './Components/ImportReconciler.tsx';
+import DuplicateFinder from './Components/DuplicateFinder.tsx';
+import BenchmarkPanel from './Components/BenchmarkPanel.tsx';
+import BenchmarkGroupEditor from './Components/BenchmarkGroupEditor.tsx';
+import RateTree from './Components/RateTree.tsx';
+import RateSearchBar from './Components/RateSearchBar.tsx';
+import BackupManager from './Components/BackupManager.tsx';
+import AliasManager from './Components/AliasManager.tsx';
+import { TENDERS_STORAGE_KEY, duplicateTender, withoutLineHistory } from './services/tenders.ts';
+import { DEFAULT_THRESHOLDS, defaultMatcherId } from './services/matcher.ts';
+import { DEFAULT_SHORTLIST_SIZE } from './services/retrieval.ts';
+import { DEFAULT_QUOTATION_PROFILE } from './services/quotationPdf.ts';
+import { DEFAULT_PRICING, UNADJUSTED_PRICING } from './services/pricing.ts';
+import { DEFAULT_ESCALATION } from './services/escalation.ts';
+import { DEFAULT_BENCHMARK, linkRates, unlinkRate } from './services/benchmark.ts';
+import { TreeSelection, compareRateCards, inTreeSelection } from './services/catalogue.ts';
+import { EMPTY_SEARCH, buildSearchIndex, searchRates } from './services/rateSearch.ts';
+import { BASIC_RATES_STORAGE_KEY, compositeRate, recomputeAnalysedRates } from './services/rateAnalysis.ts';
+import { withVersion } from './services/rateHistory.ts';
+import { ImportRow, RateDraft, planImport } from './services/duplicates.ts';
+import { StorageFullError, loadRates, saveRates, saveToLocalStorage } from './services/rateStore.ts';
+import { BackupContents } from './services/backup.ts';
+import { ALIASES_STORAGE_KEY, learnAlias } from './services/aliases.ts';
+
+const SETTINGS_STORAGE_KEY = 'smart_rate_settings_v1';
+
+const App: React.FC = () => {
+  const [view, setView] = useState<'database' | 'tender'>('database');
+  const [sorData, setSorData] = useState<SORItem[]>([]);
+  // Rate cards load asynchronously; nothing is saved until they have, so an empty list never overwrites them
+  const [ratesLoaded, setRatesLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<SORItem | null>(null);
+  const [search, setSearch] = useState<RateSearch>(EMPTY_SEARCH);
+  const [treeSelection, setTreeSelection] = useState<TreeSelection | null>(null);
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [activeTenderId, setActiveTenderId] = useState<string | null>(null);
+  const [basicRates, setBasicRates] = useState<BasicRate[]>([]);
+  const [aliases, setAliases] = useState<MatchAlias[]>([]);
+  const [analysingItem, setAnalysingItem] = useState<SORItem | null>(null);
+  const [isBasicRatesOpen, setIsBasicRatesOpen] = useState(false);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportRow[] | null>(null);
+  const [isDuplicateFinderOpen, setIsDuplicateFinderOpen] = useState(false);
+  const [isBenchmarkPanelOpen, setIsBenchmarkPanelOpen] = useState(false);
+  const [benchmarkItemId, setBenchmarkItemId] = useState<string | null>(null);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isAliasManagerOpen, setIsAliasManagerOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(() => ({ matcher: defaultMatcherId(), thresholds: DEFAULT_THRESHOLDS, shortlistSize: DEFAULT_SHORTLIST_SIZE, quotation: DEFAULT_QUOTATION_PROFILE, pricing: DEFAULT_PRICING, escalation: DEFAULT_ESCALATION, benchmark: DEFAULT_BENCHMARK, savedSearches: [], userName: '' }));
+
+  useEffect(() => {
+    loadRates()
+      .then(items => { setSorData(items); setRatesLoaded(true); })
+      .catch(e => {
+        console.error("Loading rate cards failed:", e);
+        setStorageError('Your rate cards could not be loaded from browser storage, so changes made now will not be saved. Reload the page to try again.');
+      });
+    const savedTenders = localStorage.getItem(TENDERS_STORAGE_KEY);
+    if (savedTenders) setTenders(JSON.parse(savedTenders).map((t: Tender) => withoutLineHistory({ ...t, pricing: t.pricing ?? UNADJUSTED_PRICING })));
+    const savedBasicRates = localStorage.getItem(BASIC_RATES_STORAGE_KEY);
+    if (savedBasicRates) setBasicRates(JSON.parse(savedBasicRates));
+    const savedAliases = localStorage.getItem(ALIASES_STORAGE_KEY);
+    if (savedAliases) setAliases(JSON.parse(savedAliases));
+    const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (savedSettings) setSettings(prev => ({ ...prev, ...JSON.parse(savedSettings) }));
+  }, []);
+
+  useEffect(() => {
+    if (!ratesLoaded) return;
+    saveRates(sorData)
+      .catch(e => {
+        console.error("Saving rate cards failed:", e);
+        setStorageError(e instanceof StorageFullError ? e.message : 'The latest rate card changes could not be saved to browser storage.');
+      });
+  }, [sorData, ratesLoaded]);
+
+  // A full browser storage is reported on the banner rather than taking the page down
+  const persist = (key: string, value: unknown, what: string) => {
+    try {
+      saveToLocalStorage(key, value, what);
+    } catch (e) {
+      console.error(`Saving ${what} failed:`, e);
+      setStorageError(e instanceof StorageFullError ? e.message : `The latest ${what} could not be saved to browser storage.`);
+    }
+  };
+
+  useEffect(() => {
+    persist(TENDERS_STORAGE_KEY, tenders, 'tender changes');
+  }, [tenders]);
+
+  useEffect(() => {
+    persist(BASIC_RATES_STORAGE_KEY, basicRates, 'basic rate changes');
+  }, [basicRates]);
+
+  useEffect(() => {
+    persist(ALIASES_STORAGE_KEY, aliases, 'learned aliases');
+  }, [aliases]);
+
+  useEffect(() => {
+    persist(SETTINGS_STORAGE_KEY, settings, 'settings');
+  }, [settings]);
+
+  const activeTender = tenders.find(t => t.id === activeTenderId) ?? null;
+  const historyItem = sorData.find(r => r.id === historyItemId) ?? null;
+  const benchmarkItem = sorData.find(r => r.id === benchmarkItemId) ?? null;
+
+  const handleSaveTender = (tender: Tender) => {
+    setTenders(prev => prev.some(t => t.id === tender.id) ? prev.map(t => t.id === tender.id ? tender : t) : [...prev, tender]);
+    setActiveTenderId(tender.id);
+  };
+
+  const handleDeleteTender = (id: string) => {
+    if (!window.confirm('Delete this saved tender?')) return;
+    setTenders(prev => prev.filter(t => t.id !== id));
+    if (activeTenderId === id) setActiveTenderId(null);
+  };
+
+  const handleRestore = (contents: BackupContents) => {
+    setSorData(contents.rates);
+    setTenders(contents.tenders.map(withoutLineHistory));
+    setBasicRates(contents.basicRates);
+    setAliases(contents.aliases);
+    if (contents.settings) setSettings(contents.settings);
+    setActiveTenderId(null);
+    setTreeSelection(null);
+    setIsBackupOpen(false);
+  };
+
+  const createRate = (item: RateDraft): SORItem =>
+    withVersion(null, { ...item, id: crypto.randomUUID(), timestamp: Date.now() }, settings.userName, 'created');
+
+  const handleAddOrUpdateRate = (item: Omit<SORItem, 'id' | 'timestamp'>) => {
+    if (editingItem) {
+      setSorData(prev => prev.map(r => r.id === editingItem.id ? withVersion(r, { ...r, ...item }, settings.userName, 'edited') : r));
+    } else {
+      setSorData(prev => [...prev, createRate(item)]);
+    }
+    setIsFormOpen(false);
+    setEditingItem(null);
+  };
+
+  // Imports that would duplicate existing rate cards go through reconciliation first
+  const handleBulkImport = (items: RateDraft[]) => {
+    const rows = planImport(items, sorData);
+    setIsFormOpen(false);
+    if (rows.some(r => r.match)) setPendingImport(rows);
+    else setSorData(prev => [...prev, ...items.map(createRate)]);
+  };
+
+  const handleConfirmImport = (rows: ImportRow[]) => {
+    // Only cards already in the database can be overwritten; a repeat within the import is skipped or kept
+    const overwrites = new Map<string, RateDraft>();
+    rows.forEach(({ draft, match, resolution }) => {
+      if (match?.within === 'database' && resolution === 'overwrite') overwrites.set(match.existing.id, draft);
+    });
+    const added = rows.filter(r => !r.match || r.resolution === 'keep-both').map(r => createRate(r.draft));
+    // An imported rate supersedes any analysis the card was priced from
+    setSorData(prev => [
+      ...prev.map(item => overwrites.has(item.id)
+        ? withVersion(item, { ...item, ...overwrites.get(item.id)!, analysis: undefined }, settings.userName, 'imported')
+        : item),
+      ...added,
+    ]);
+    setPendingImport(null);
+  };
+
+  const handleBasicRatesChange = (next: BasicRate[]) => {
+    setBasicRates(next);
+    setSorData(prev => recomputeAnalysedRates(prev, next).map((item, i) =>
+      item === prev[i] ? item : withVersion(prev[i], item, settings.userName, 'basic-rate')));
+  };
+
+  const handleSaveAnalysis = (analysis: RateAnalysis | undefined) => {
+    if (!analysingItem) return;
+    setSorData(prev => prev.map(r => r.id === analysingItem.id
+      ? withVersion(r, { ...r, analysis, rate: analysis ? compositeRate(analysis, basicRates) : r.rate }, settings.userName, 'analysis')
+      : r));
+    setAnalysingItem(null);
+  };
+
+  // The index is rebuilt only when the rates change; typing just re-runs the search, a render behind the input
+  const searchIndex = useMemo(() => buildSearchIndex(sorData), [sorData]);
+  const deferredSearch = useDeferredValue(search);
+  const filteredRates = useMemo(() => {
+    const matches = searchRates(searchIndex, deferredSearch);
+    if (!treeSelection) return matches;
+    const browsed = matches.filter(i => inTreeSelection(i, treeSelection));
+    // Browsing a source or chapter without a query lists it in book order
+    return deferredSearch.sort === 'relevance' && !deferredSearch.query.trim() ? browsed.sort(compareRateCards) : browsed;
+  }, [searchIndex, deferredSearch, treeSelection]);
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 pb-20">
+      <header className="sticky top-0 z-40 w-full bg-white/80 backdrop-blur-md border-b h-16 flex items-center px-6 justify-between shadow-sm">
+        <div className="flex items-center space-x-3">
+          <div className="bg-indigo-600 p-2 rounded-xl"><Database className="text-white w-5 h-5" /></div>
+          <span className="font-black text-xl tracking-tight hidden sm:block">SmartRate</span>
+        </div>
+
+        <nav className="flex bg-slate-100 p-1.5 rounded-2xl border border-slate-200">
+          <button onClick={() => setView('database')} className={`px-5 py-1.5 rounded-xl text-sm font-bold transition-all ${view === 'database' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-500'}`}>Rate Cards</button>
+          <button onClick={() => setView('tender')} className={`px-5 py-1.5 rounded-xl text-sm font-bold transition-all ${view === 'tender' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-500'}`}>Tender Builder</button>
+        </nav>
+
+        <button onClick={() => { setEditingItem(null); setIsFormOpen(true); }} className="bg-indigo-600 text-white px-5 py-2.5 rounded-xl font-bold flex items-center text-sm shadow-lg shadow-indigo-100 hover:bg-indigo-700 transition-all active:scale-95">
+          <Plus className="w-5 h-5 mr-1" /> Add Rate
+        </button>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-6 sm:p-10">
+        {storageError && (
+          <div className="mb-8 flex items-start gap-3 px-4 py-3 bg-red-50 border border-red-200 rounded-2xl text-sm text-red-700 font-medium no-print">
+            <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+            <p className="flex-1">{storageError}</p>
+            <button onClick={() => setStorageError(null)} title="Dismiss" className="p-1 text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+          </div>
+        )}
+        {view === 'database' ? (
+          <div className="space-y-8">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-6">
+              <div>
+                <h1 className="text-4xl font-black text-slate-800 tracking-tighter">Database</h1>
+                <p className="text-slate-400 font-medium">Manage and search your benchmark Schedule of Rates</p>
+              </div>
+              <div className="flex items-center gap-3 w-full sm:w-auto">
+                <button onClick={() => setIsBenchmarkPanelOpen(!isBenchmarkPanelOpen)} className={`shrink-0 flex items-center px-4 py-3 border rounded-2xl text-sm font-bold shadow-sm transition-all ${isBenchmarkPanelOpen ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`}>
+                  <Scale className="w-4 h-4 mr-2" /> Benchmarking
+                </button>
+                <button onClick={() => setIsDuplicateFinderOpen(true)} className="shrink-0 flex items-center px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:text-indigo-600 shadow-sm transition-all">
+                  <Copy className="w-4 h-4 mr-2" /> Find Duplicates
+                </button>
+                <button onClick={() => setIsAliasManagerOpen(true)} className="shrink-0 flex items-center px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:text-indigo-600 shadow-sm transition-all">
+                  <BookMarked className="w-4 h-4 mr-2" /> Aliases
+                </button>
+                <button onClick={() => setIsBackupOpen(true)} className="shrink-0 flex items-center px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:text-indigo-600 shadow-sm transition-all">
+                  <ArchiveRestore className="w-4 h-4 mr-2" /> Backup
+                </button>
+                <button onClick={() => setIsBasicRatesOpen(true)} className="shrink-0 flex items-center px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:text-indigo-600 shadow-sm transition-all">
+                  <Calculator className="w-4 h-4 mr-2" /> Basic Rates
+                </button>
+              </div>
+            </div>
+            <RateSearchBar
+              search={search}
+              units={searchIndex.units}
+              sources={searchIndex.sources}
+              resultCount={filteredRates.length}
+              totalCount={sorData.length}
+              savedSearches={settings.savedSearches}
+              onChange={setSearch}
+              onSavedSearchesChange={savedSearches => setSettings(prev => ({ ...prev, savedSearches }))}
+            />
+            {isBenchmarkPanelOpen && <BenchmarkPanel benchmark={settings.benchmark} onChange={benchmark => setSettings(prev => ({ ...prev, benchmark }))} />}
+            <div className="flex flex-col lg:flex-row gap-6 items-start">
+              {sorData.length > 0 && (
+                <aside className="w-full lg:w-72 shrink-0 lg:sticky lg:top-24">
+                  <RateTree rates={sorData} selection={treeSelection} onSelect={setTreeSelection} />
+                </aside>
+              )}
+              <div className="flex-1 min-w-0 w-full">
+                <RateList rates={filteredRates} allRates={sorData} benchmark={settings.benchmark} onBenchmark={i => setBenchmarkItemId(i.id)} onDelete={id => setSorData(s => s.filter(i => i.id !== id))} onEdit={i => { setEditingItem(i); setIsFormOpen(true); }} onAnalyse={setAnalysingItem} onHistory={i => setHistoryItemId(i.id)} />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-10">
+            <TenderProcessor sorData={sorData} tender={activeTender} settings={settings} aliases={aliases} onSave={handleSaveTender} onLearnAlias={(description, rateId) => setAliases(prev => learnAlias(prev, description, rateId))} onClose={() => setActiveTenderId(null)} onSettingsChange={setSettings} />
+            {!activeTender && (
+              <TenderList tenders={tenders} onOpen={setActiveTenderId} onDuplicate={t => setTenders(prev => [...prev, duplicateTender(t)])} onDelete={handleDeleteTender} />
+            )}
+          </div>
+        )}
+      </main>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setIsFormOpen(false)} />
+          <div className="relative bg-white w-full max-w-xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <RateForm editingItem={editingItem} onSubmit={handleAddOrUpdateRate} onBulkSubmit={handleBulkImport} onCancel={() => setIsFormOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {analysingItem && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setAnalysingItem(null)} />
+          <div className="relative bg-white w-full max-w-3xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <RateAnalysisEditor item={analysingItem} basicRates={basicRates} onSave={handleSaveAnalysis} onAddBasicRate={b => setBasicRates(prev => [...prev, b])} onClose={() => setAnalysingItem(null)} />
+          </div>
+        </div>
+      )}
+
+      {pendingImport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setPendingImport(null)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <ImportReconciler rows={pendingImport} onConfirm={handleConfirmImport} onCancel={() => setPendingImport(null)} />
+          </div>
+        </div>
+      )}
+
+      {isDuplicateFinderOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setIsDuplicateFinderOpen(false)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <DuplicateFinder sorData={sorData} onDelete={ids => setSorData(prev => prev.filter(r => !ids.includes(r.id)))} onClose={() => setIsDuplicateFinderOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {isAliasManagerOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setIsAliasManagerOpen(false)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <AliasManager aliases={aliases} sorData={sorData} onChange={setAliases} onClose={() => setIsAliasManagerOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {isBackupOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setIsBackupOpen(false)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <BackupManager current={{ rates: sorData, tenders, basicRates, aliases, settings }} onRestore={handleRestore} onClose={() => setIsBackupOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {benchmarkItem && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setBenchmarkItemId(null)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <BenchmarkGroupEditor
+              item={benchmarkItem}
+              sorData={sorData}
+              benchmark={settings.benchmark}
+              onLink={otherId => setSorData(prev => linkRates(prev, benchmarkItem.id, otherId))}
+              onUnlink={id => setSorData(prev => unlinkRate(prev, id))}
+              onClose={() => setBenchmarkItemId(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {historyItem && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setHistoryItemId(null)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <RateHistory item={historyItem} userName={settings.userName} onUserNameChange={userName => setSettings(prev => ({ ...prev, userName }))} onClose={() => setHistoryItemId(null)} />
+          </div>
+        </div>
+      )}
+
+      {isBasicRatesOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setIsBasicRatesOpen(false)} />
+          <div className="relative bg-white w-full max-w-2xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+            <BasicRatesManager basicRates={basicRates} sorData={sorData} onChange={handleBasicRatesChange} onClose={() => setIsBasicRatesOpen(false)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { X, Trash2, Pencil, Info, ArrowRight, Search, Check } from 'lucide-react';
+import { MatchAlias, SORItem } from '../types.ts';
+import { aliasKey, updateAlias } from '../services/aliases.ts';
+import { getRetrievalIndex, shortlist } from '../services/retrieval.ts';
+
+interface AliasManagerProps {
+  aliases: MatchAlias[];
+  sorData: SORItem[];
+  onChange: (aliases: MatchAlias[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+
+// Rate cards offered when pointing an alias at a different card
+const RATE_OPTIONS = 8;
+
+interface AliasDraft {
+  id: string;
+  description: string;
+  rateId: string;
+  query: string;
+}
+
+const AliasManager: React.FC<AliasManagerProps> = ({ aliases, sorData, onChange, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<AliasDraft | null>(null);
+  const rates = useMemo(() => new Map(sorData.map(item => [item.id, item])), [sorData]);
+
+  const visible = useMemo(() => {
+    const key = aliasKey(filter);
+    return [...aliases]
+      .filter(a => !key || a.key.includes(key) || aliasKey(rates.get(a.rateId)?.name ?? '').includes(key))
+      .sort((a, b) => b.learnedAt - a.learnedAt);
+  }, [aliases, filter, rates]);
+
+  const rateOptions = useMemo(() => draft?.query.trim()
+    ? shortlist(getRetrievalIndex(sorData), { name: draft.query, requestedScope: '' }, RATE_OPTIONS)
+    : [], [draft?.query, sorData]);
+
+  const handleSave = () => {
+    if (!draft || !aliasKey(draft.description)) return;
+    onChange(updateAlias(aliases, draft.id, { description: draft.description, rateId: draft.rateId }));
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Learned Aliases</h3>
+          <p className="text-sm text-slate-500">Tender descriptions you confirmed against a rate card. Later tenders quote them without asking the matching engine.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4 overflow-y-auto">
+        {aliases.length === 0 ? (
+          <div className="text-center py-10">
+            <Info className="w-10 h-10 text-slate-300 mx-auto mb-3" />
+            <p className="text-sm text-slate-400">Accepting a suggested match or picking a rate card for a tender line teaches SmartRate that description.</p>
+          </div>
+        ) : (
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input className={`${inputClass} pl-9`} placeholder="Filter by description or rate card" value={filter} onChange={e => setFilter(e.target.value)} />
+          </div>
+        )}
+
+        {visible.map(alias => {
+          const rate = rates.get(alias.rateId);
+          if (draft?.id === alias.id) {
+            const chosen = rates.get(draft.rateId);
+            return (
+              <div key={alias.id} className="p-4 border border-indigo-200 rounded-2xl space-y-3">
+                <input className={inputClass} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+                <div className="text-xs text-slate-500">
+                  Quoted from: <span className="font-bold text-slate-700">{chosen ? `${chosen.name} (${chosen.unit})` : 'Rate card deleted'}</span>
+                </div>
+                <input className={inputClass} placeholder="Search for a different rate card" value={draft.query} onChange={e => setDraft({ ...draft, query: e.target.value })} />
+                {rateOptions.length > 0 && (
+                  <div className="space-y-1">
+                    {rateOptions.map(option => (
+                      <button key={option.id} onClick={() => setDraft({ ...draft, rateId: option.id, query: '' })} className={`w-full text-left px-3 py-2 rounded-xl text-xs transition-all ${option.id === draft.rateId ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-50 text-slate-600 hover:bg-indigo-50'}`}>
+                        <span className="font-bold">{option.name}</span> · {option.unit} · ₹{option.rate.toLocaleString()}{option.source && ` · ${option.source}`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setDraft(null)} className="px-4 py-2 text-xs font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+                  <button onClick={handleSave} disabled={!aliasKey(draft.description) || !chosen} className="flex items-center px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-bold hover:bg-black disabled:opacity-50 transition-all">
+                    <Check className="w-3 h-3 mr-1" /> Save
+                  </button>
+                </div>
+              </div>
+            );
+          }
+          return (
+            <div key={alias.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-slate-50">
+              <div className="min-w-0 flex-1 grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] items-center gap-2 text-sm">
+                <span className="font-semibold text-slate-700 truncate" title={alias.description}>{alias.description}</span>
+                <ArrowRight className="w-4 h-4 text-slate-300 hidden sm:block" />
+                {rate ? (
+                  <span className="text-slate-500 truncate" title={rate.name}>{rate.name} <span className="text-[11px] text-slate-400">· {rate.unit}{rate.source && ` · ${rate.source}`}</span></span>
+                ) : (
+                  <span className="text-red-400 text-xs font-bold">Rate card deleted</span>
+                )}
+              </div>
+              <span className="hidden sm:block shrink-0 text-[10px] text-slate-400">{new Date(alias.learnedAt).toLocaleDateString()}</span>
+              <div className="flex shrink-0">
+                <button onClick={() => setDraft({ id: alias.id, description: alias.description, rateId: alias.rateId, query: '' })} title="Edit" className="p-2 text-slate-300 hover:text-indigo-600 transition-colors">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange(aliases.filter(a => a.id !== alias.id))} title="Forget" className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AliasManager;
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { X, Download, Upload, AlertTriangle, FileJson } from 'lucide-react';
+import { BackupContents, BackupError, DatabaseBackup, RestoreMode, countIncoming, downloadBackup, parseBackup, restoreBackup } from '../services/backup.ts';
+
+interface BackupManagerProps {
+  current: BackupContents;
+  onRestore: (contents: BackupContents) => void;
+  onClose: () => void;
+}
+
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const plural = (n: number, word: string, words = `${word}s`) => `${n.toLocaleString()} ${n === 1 ? word : words}`;
+
+const RESTORE_MODES: { mode: RestoreMode; title: string; description: string }[] = [
+  { mode: 'merge', title: 'Merge', description: 'Add records you do not have and take any that were changed more recently in the backup. Your settings stay as they are.' },
+  { mode: 'replace', title: 'Replace', description: 'Discard the rate cards, tenders, basic rates and aliases in this browser and use the backup as it is.' },
+];
+
+const BackupManager: React.FC<BackupManagerProps> = ({ current, onRestore, onClose }) => {
+  const [includeTenders, setIncludeTenders] = useState(true);
+  const [includeSettings, setIncludeSettings] = useState(true);
+  const [backup, setBackup] = useState<DatabaseBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<BackupError | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const incoming = useMemo(() => backup ? countIncoming(current, backup) : null, [backup, current]);
+
+  const handleExport = () => downloadBackup({
+    rates: current.rates,
+    basicRates: current.basicRates,
+    aliases: current.aliases,
+    tenders: includeTenders ? current.tenders : [],
+    settings: includeSettings ? current.settings : undefined,
+  });
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setFileName(file.name);
+    setBackup(null);
+    setError(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (e) {
+      setError(e instanceof BackupError ? e : new BackupError('The file could not be read.'));
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm(`Replace your ${plural(current.rates.length, 'rate card')} and ${plural(current.tenders.length, 'tender')} with the backup? This cannot be undone.`)) return;
+    onRestore(restoreBackup(current, backup, mode));
+  };
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Backup & Restore</h3>
+          <p className="text-sm text-slate-500">Move your rate database to another browser or share it with colleagues.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-8 overflow-y-auto">
+        <div className="space-y-3">
+          <label className={labelClass}>Export</label>
+          <p className="text-sm text-slate-500">{plural(current.rates.length, 'rate card')}, {plural(current.basicRates.length, 'basic rate')} and {plural(current.aliases.length, 'learned alias', 'learned aliases')}, with price history and analyses.</p>
+          <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="w-4 h-4 accent-indigo-600" checked={includeTenders} onChange={e => setIncludeTenders(e.target.checked)} />
+              Include {plural(current.tenders.length, 'tender')}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="w-4 h-4 accent-indigo-600" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} />
+              Include settings
+            </label>
+          </div>
+          <button onClick={handleExport} className="flex items-center px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-100 transition-all">
+            <Download className="w-4 h-4 mr-2" /> Download Backup
+          </button>
+        </div>
+
+        <div className="space-y-3 pt-6 border-t border-slate-100">
+          <label className={labelClass}>Restore</label>
+          <label className="flex items-center justify-center w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl text-sm font-bold text-slate-400 hover:border-indigo-300 hover:text-indigo-600 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-2" /> {fileName || 'Choose Backup File'}
+            <input type="file" accept=".json,application/json" className="hidden" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {error && (
+            <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-2xl text-xs text-red-700 space-y-1">
+              <p className="flex items-center font-bold"><AlertTriangle className="w-4 h-4 mr-2 shrink-0" /> {error.message}</p>
+              {error.problems.length > 0 && (
+                <ul className="list-disc pl-10 space-y-0.5">
+                  {error.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {backup && incoming && (
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 p-4 bg-slate-50 rounded-2xl text-sm">
+                <FileJson className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+                <div className="text-slate-600">
+                  <p className="font-bold text-slate-800">Exported {new Date(backup.exportedAt).toLocaleString()}</p>
+                  <p>
+                    {plural(backup.rates.length, 'rate card')}, {plural(backup.tenders.length, 'tender')}, {plural(backup.basicRates.length, 'basic rate')}, {plural(backup.aliases.length, 'alias', 'aliases')}
+                    {backup.settings ? ' and settings' : ''}
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {RESTORE_MODES.map(option => (
+                  <button key={option.mode} onClick={() => setMode(option.mode)} className={`p-4 text-left border rounded-2xl transition-all ${mode === option.mode ? 'border-indigo-500 bg-indigo-50/50 ring-2 ring-indigo-100' : 'border-slate-200 hover:border-indigo-300'}`}>
+                    <span className="block text-sm font-bold text-slate-800">{option.title}</span>
+                    <span className="block text-xs text-slate-500 mt-1">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'merge' && (
+                <p className="text-xs text-slate-500">
+                  Adds {plural(incoming.rates.added, 'rate card')}, {plural(incoming.tenders.added, 'tender')} and {plural(incoming.basicRates.added, 'basic rate')};
+                  updates {plural(incoming.rates.updated + incoming.tenders.updated + incoming.basicRates.updated, 'record')} changed more recently in the backup.
+                </p>
+              )}
+
+              <button onClick={handleRestore} className={`w-full py-3 rounded-xl text-sm font-bold text-white transition-all ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-900 hover:bg-black'}`}>
+                {mode === 'replace' ? 'Replace Database' : 'Merge Into Database'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupManager;
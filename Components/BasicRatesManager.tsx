@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { AnalysisCategory, BasicRate, SORItem } from '../types.ts';
+import { ANALYSIS_CATEGORIES, countBasicRateUsage } from '../services/rateAnalysis.ts';
+
+interface BasicRatesManagerProps {
+  basicRates: BasicRate[];
+  sorData: SORItem[];
+  onChange: (basicRates: BasicRate[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const CATEGORIES = Object.keys(ANALYSIS_CATEGORIES) as AnalysisCategory[];
+
+const BasicRatesManager: React.FC<BasicRatesManagerProps> = ({ basicRates, sorData, onChange, onClose }) => {
+  const usage = useMemo(() => countBasicRateUsage(sorData), [sorData]);
+
+  const update = (id: string, patch: Partial<BasicRate>) =>
+    onChange(basicRates.map(b => b.id === id ? { ...b, ...patch, updatedAt: Date.now() } : b));
+
+  const addRate = (category: AnalysisCategory) =>
+    onChange([...basicRates, { id: crypto.randomUUID(), name: '', unit: '', rate: 0, category, updatedAt: Date.now() }]);
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Basic Rates</h3>
+          <p className="text-sm text-slate-500">Changing a price here reprices every analysed rate card that uses it.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6 overflow-y-auto">
+        {CATEGORIES.map(category => (
+          <div key={category} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{ANALYSIS_CATEGORIES[category]}</span>
+              <button onClick={() => addRate(category)} className="flex items-center text-[11px] font-bold text-indigo-600 hover:text-indigo-800">
+                <Plus className="w-3 h-3 mr-1" /> Add
+              </button>
+            </div>
+            {basicRates.filter(b => b.category === category).map(b => {
+              const usedBy = usage.get(b.id) ?? 0;
+              return (
+                <div key={b.id} className="flex items-center gap-2">
+                  <input type="text" className={inputClass} placeholder="Name" value={b.name} onChange={e => update(b.id, { name: e.target.value })} />
+                  <input type="text" className={`${inputClass} w-20 shrink-0`} placeholder="Unit" value={b.unit} onChange={e => update(b.id, { unit: e.target.value })} />
+                  <input type="number" min={0} step="0.01" className={`${inputClass} w-28 shrink-0`} value={b.rate} onChange={e => update(b.id, { rate: Math.max(parseFloat(e.target.value) || 0, 0) })} />
+                  <span className="w-16 shrink-0 text-[10px] text-slate-400 text-right">{usedBy ? `${usedBy} item${usedBy === 1 ? '' : 's'}` : 'unused'}</span>
+                  <button
+                    onClick={() => onChange(basicRates.filter(r => r.id !== b.id))}
+                    disabled={usedBy > 0}
+                    title={usedBy > 0 ? 'Used in rate analyses' : 'Delete'}
+                    className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BasicRatesManager;
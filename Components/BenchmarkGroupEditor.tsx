@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Link2, Unlink, TrendingDown, AlertTriangle } from 'lucide-react';
+import { BenchmarkSettings, SORItem } from '../types.ts';
+import { benchmarkGroupOf, selectBenchmark } from '../services/benchmark.ts';
+
+interface BenchmarkGroupEditorProps {
+  item: SORItem;
+  sorData: SORItem[];
+  benchmark: BenchmarkSettings;
+  onLink: (otherId: string) => void;
+  onUnlink: (id: string) => void;
+  onClose: () => void;
+}
+
+const SEARCH_LIMIT = 20;
+
+const BenchmarkGroupEditor: React.FC<BenchmarkGroupEditorProps> = ({ item, sorData, benchmark, onLink, onUnlink, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  const group = useMemo(() => benchmarkGroupOf(item, sorData), [item, sorData]);
+  const result = useMemo(() => selectBenchmark(group, benchmark), [group, benchmark]);
+  const comparable = new Set(result?.members.map(m => m.id));
+
+  const searchResults = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const inGroup = new Set(group.map(g => g.id));
+    return sorData
+      .filter(r => !inGroup.has(r.id) && (r.name.toLowerCase().includes(q) || r.source.toLowerCase().includes(q)))
+      .slice(0, SEARCH_LIMIT);
+  }, [sorData, group, query]);
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-slate-800">Benchmark Group</h3>
+          <p className="text-sm text-slate-500 truncate">{item.name} · {group.length} equivalent rate card{group.length === 1 ? '' : 's'}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6 overflow-y-auto">
+        {result && group.length > 1 && (
+          <div className="p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm">
+            <div className="text-[10px] font-bold text-emerald-600 uppercase tracking-widest mb-1">Benchmark</div>
+            <div className="font-black text-slate-900">₹{result.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{result.card.unit}</span></div>
+            <p className="text-[11px] text-slate-500 mt-1">{result.basis}</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {group.map(card => {
+            const isBenchmark = group.length > 1 && result?.card.id === card.id;
+            const isOutlier = result?.outliers.some(o => o.id === card.id);
+            return (
+              <div key={card.id} className={`flex items-center justify-between gap-4 p-3 rounded-xl border ${isBenchmark ? 'border-emerald-200 bg-emerald-50/40' : 'border-slate-100 bg-white'}`}>
+                <div className="min-w-0">
+                  <div className="font-semibold text-slate-700 text-sm truncate">{card.name}</div>
+                  <div className="text-[11px] text-slate-400 truncate">
+                    {card.source || 'Standard Reference'} · {new Date(card.timestamp).toLocaleDateString()}
+                    {!comparable.has(card.id) && <span className="text-red-500 font-bold"> · unit not comparable</span>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {isBenchmark && <span className="text-[10px] font-bold bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full flex items-center"><TrendingDown className="w-3 h-3 mr-1" /> Benchmark</span>}
+                  {isOutlier && <span className="text-[10px] font-bold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full flex items-center"><AlertTriangle className="w-3 h-3 mr-1" /> Outlier</span>}
+                  <span className="text-sm font-black text-slate-900">₹{card.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{card.unit}</span></span>
+                  {card.benchmarkGroupId && (
+                    <button onClick={() => onUnlink(card.id)} title="Remove from group" className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+                      <Unlink className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Link an Equivalent Rate Card</div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input className="w-full pl-9 pr-4 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm" placeholder="Name or source..." value={query} onChange={e => setQuery(e.target.value)} />
+          </div>
+          {searchResults.map(card => (
+            <div key={card.id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-slate-100 bg-white">
+              <div className="min-w-0">
+                <div className="font-semibold text-slate-700 text-sm truncate">{card.name}</div>
+                <div className="text-[11px] text-slate-400 truncate">{card.source || 'Standard Reference'}</div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-sm font-black text-slate-900">₹{card.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{card.unit}</span></span>
+                <button onClick={() => onLink(card.id)} className="flex items-center px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[11px] font-bold hover:bg-black transition-all">
+                  <Link2 className="w-3 h-3 mr-1" /> Link
+                </button>
+              </div>
+            </div>
+          ))}
+          {query.trim() && searchResults.length === 0 && <p className="text-[11px] text-slate-400 italic">No other rate cards match "{query}".</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkGroupEditor;
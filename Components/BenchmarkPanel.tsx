@@ -0,0 +1,59 @@
+import React from 'react';
+import { BenchmarkSettings, BenchmarkStrategy } from '../types.ts';
+import { BENCHMARK_STRATEGY_LABELS } from '../services/benchmark.ts';
+
+interface BenchmarkPanelProps {
+  benchmark: BenchmarkSettings;
+  onChange: (benchmark: BenchmarkSettings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const percentValue = (value: string) => Math.min(Math.max(parseFloat(value) || 0, 0), 100);
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ benchmark, onChange }) => {
+  const set = <K extends keyof BenchmarkSettings>(key: K, value: BenchmarkSettings[K]) => onChange({ ...benchmark, [key]: value });
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-5 animate-in slide-in-from-top-4 duration-300">
+      <div>
+        <label className={labelClass}>Benchmark Rate</label>
+        <div className="flex flex-wrap p-1 bg-slate-100 rounded-xl border border-slate-200 w-fit">
+          {(Object.keys(BENCHMARK_STRATEGY_LABELS) as BenchmarkStrategy[]).map(strategy => (
+            <button key={strategy} onClick={() => set('strategy', strategy)} className={`px-4 py-1.5 text-xs font-bold rounded-lg ${benchmark.strategy === strategy ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>
+              {BENCHMARK_STRATEGY_LABELS[strategy]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <div className="sm:col-span-2">
+          <label className={labelClass}>Preferred Sources</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. CPWD DSR, State PWD"
+            value={benchmark.preferredSources.join(',')}
+            onChange={e => set('preferredSources', e.target.value.split(','))}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Trim Each End (%)</label>
+          <input type="number" min={0} max={49} className={inputClass} value={benchmark.trimPercent} onChange={e => set('trimPercent', Math.min(percentValue(e.target.value), 49))} />
+        </div>
+        <div>
+          <label className={labelClass}>Low Outlier (%)</label>
+          <input type="number" min={0} max={100} className={inputClass} value={benchmark.lowOutlierPercent} onChange={e => set('lowOutlierPercent', percentValue(e.target.value))} />
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        Rate cards linked into a group, or sharing a name, are compared per the same unit. With three or more rates, any more than the
+        low-outlier percentage below the group median is ignored. Preferred sources are tried in order, falling back to the lowest rate.
+      </p>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { Search, PenLine, Check } from 'lucide-react';
+import { SORItem, TenderItem } from '../types.ts';
+
+interface CandidatePickerProps {
+  item: TenderItem;
+  sorData: SORItem[];
+  onPick: (rate: SORItem) => void;
+  onManualRate: (rate: number) => void;
+  onClose: () => void;
+}
+
+const SEARCH_LIMIT = 20;
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ item, sorData, onPick, onManualRate, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [manualRate, setManualRate] = useState(item.manualRate?.toString() ?? '');
+
+  const searchResults = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return sorData
+      .filter(r => r.name.toLowerCase().includes(q) || r.source.toLowerCase().includes(q) || r.scopeOfWork.toLowerCase().includes(q))
+      .slice(0, SEARCH_LIMIT);
+  }, [sorData, query]);
+
+  const renderOption = (rate: SORItem, score?: number) => {
+    const isCurrent = item.status !== 'manual' && item.matchedRate?.id === rate.id;
+    return (
+      <div key={rate.id} className={`flex items-center justify-between gap-4 p-3 rounded-xl border ${isCurrent ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-white'}`}>
+        <div className="min-w-0">
+          <div className="font-semibold text-slate-700 text-sm truncate">{rate.name}</div>
+          <div className="text-[11px] text-slate-400 truncate">
+            {rate.source || 'Standard Reference'}{score !== undefined && ` · ${Math.round(score * 100)}% similar`}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <span className="text-sm font-black text-slate-900">₹{rate.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{rate.unit}</span></span>
+          {isCurrent ? (
+            <span className="flex items-center text-[11px] font-bold text-indigo-600 uppercase"><Check className="w-3 h-3 mr-1" /> Current</span>
+          ) : (
+            <button onClick={() => onPick(rate)} className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[11px] font-bold hover:bg-black transition-all">Use</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-100 space-y-5 animate-in slide-in-from-top-4 duration-300">
+      {item.candidates && item.candidates.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Ranked Candidates</div>
+          {item.candidates.map(c => renderOption(c.rate, c.score))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Search Rate Database</div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input className="w-full pl-9 pr-4 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm" placeholder="Name, source or scope..." value={query} onChange={e => setQuery(e.target.value)} />
+        </div>
+        {searchResults.map(r => renderOption(r))}
+        {query.trim() && searchResults.length === 0 && <p className="text-[11px] text-slate-400 italic">No rate cards match "{query}".</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Enter Rate Manually</div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-bold text-slate-500">₹</span>
+          <input type="number" step="0.01" min={0} className="w-40 px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm" value={manualRate} onChange={e => setManualRate(e.target.value)} />
+          <span className="text-xs text-slate-400">per {item.unit || 'unit'}</span>
+          <button
+            disabled={!(parseFloat(manualRate) >= 0) || manualRate === ''}
+            onClick={() => onManualRate(parseFloat(manualRate))}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-50 transition-all"
+          >
+            <PenLine className="w-3 h-3 mr-1" /> Apply
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-5 py-2 text-xs font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePicker;
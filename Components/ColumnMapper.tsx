@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { FileUp, Loader2, Table } from 'lucide-react';
+import { ColumnMapping, ImportField, SheetData, applyMapping, detectHeaderRow, guessMapping, readSpreadsheet } from '../services/spreadsheet.ts';
+
+interface ColumnMapperProps<K extends string> {
+  fields: ImportField<K>[];
+  onImport: (records: Record<K, string>[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+function ColumnMapper<K extends string>({ fields, onImport, onCancel }: ColumnMapperProps<K>) {
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<SheetData[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping<K> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const sheet = sheets[sheetIndex];
+  const headers = sheet?.rows[headerRow] ?? [];
+
+  const selectSheet = (loaded: SheetData[], index: number) => {
+    const rows = loaded[index]?.rows ?? [];
+    const header = detectHeaderRow(rows);
+    setSheetIndex(index);
+    setHeaderRow(header);
+    setMapping(guessMapping(rows[header] ?? [], fields));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    setError('');
+    try {
+      const loaded = await readSpreadsheet(file);
+      if (loaded.every(s => s.rows.length === 0)) throw new Error('The file contains no rows.');
+      setFileName(file.name);
+      setSheets(loaded);
+      selectSheet(loaded, Math.max(loaded.findIndex(s => s.rows.length > 0), 0));
+    } catch (e) {
+      console.error("Spreadsheet import failed:", e);
+      setError(e instanceof Error ? e.message : 'Could not read this file.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const records = useMemo(
+    () => (sheet && mapping ? applyMapping(sheet.rows, headerRow, mapping) : []),
+    [sheet, headerRow, mapping]
+  );
+
+  const missingRequired = mapping ? fields.filter(f => f.required && mapping[f.key] === null) : fields;
+
+  if (!sheet || !mapping) {
+    return (
+      <div className="space-y-3">
+        <label className="flex flex-col items-center justify-center w-full py-10 border-2 border-dashed border-slate-200 rounded-2xl bg-slate-50/30 cursor-pointer hover:border-indigo-300 transition-all">
+          {loading ? <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" /> : <FileUp className="w-8 h-8 text-indigo-400" />}
+          <span className="mt-3 text-sm font-bold text-slate-600">Upload .xlsx or .csv</span>
+          <span className="text-[11px] text-slate-400">Columns are mapped in the next step; nothing is sent to AI.</span>
+          <input type="file" accept=".xlsx,.csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        </label>
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center text-sm font-bold text-slate-700 min-w-0">
+          <Table className="w-4 h-4 mr-2 text-indigo-500 shrink-0" /> <span className="truncate">{fileName}</span>
+        </div>
+        {sheets.length > 1 && (
+          <select className="px-3 py-1.5 border border-slate-200 rounded-lg text-xs bg-white" value={sheetIndex} onChange={e => selectSheet(sheets, Number(e.target.value))}>
+            {sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-500">
+        Header row
+        <input type="number" min={1} max={sheet.rows.length} className="w-16 px-2 py-1 border border-slate-200 rounded-lg bg-slate-50/30" value={headerRow + 1}
+          onChange={e => {
+            const row = Math.min(Math.max((parseInt(e.target.value) || 1) - 1, 0), sheet.rows.length - 1);
+            setHeaderRow(row);
+            setMapping(guessMapping(sheet.rows[row] ?? [], fields));
+          }} />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(f => (
+          <div key={f.key}>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">{f.label}{f.required && ' *'}</label>
+            <select
+              className="w-full px-3 py-2 border border-slate-200 rounded-xl bg-slate-50/30 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              value={mapping[f.key] ?? ''}
+              onChange={e => setMapping({ ...mapping, [f.key]: e.target.value === '' ? null : Number(e.target.value) })}
+            >
+              <option value="">— Not in file —</option>
+              {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border border-slate-100 rounded-xl">
+        <table className="w-full text-[11px]">
+          <thead className="bg-slate-50 text-slate-400 uppercase tracking-widest">
+            <tr>{fields.map(f => <th key={f.key} className="px-2 py-1.5 text-left font-bold">{f.label}</th>)}</tr>
+          </thead>
+          <tbody>
+            {records.slice(0, PREVIEW_ROWS).map((r, i) => (
+              <tr key={i} className="border-t border-slate-100">
+                {fields.map(f => <td key={f.key} className="px-2 py-1.5 text-slate-600 max-w-[160px] truncate">{r[f.key]}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingRequired.length > 0 && (
+        <p className="text-xs text-red-500 font-medium">Map the required columns: {missingRequired.map(f => f.label).join(', ')}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-5 py-3 text-sm font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+        <button
+          disabled={missingRequired.length > 0 || records.length === 0}
+          onClick={() => onImport(records)}
+          className="flex-1 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg font-bold disabled:opacity-50"
+        >
+          Use {records.length} Rows
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnMapper;
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { X, Trash2, Check, Info } from 'lucide-react';
+import { SORItem } from '../types.ts';
+import { findDuplicateGroups } from '../services/duplicates.ts';
+import { getVersions } from '../services/rateHistory.ts';
+
+interface DuplicateFinderProps {
+  sorData: SORItem[];
+  onDelete: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ sorData, onDelete, onClose }) => {
+  const groups = useMemo(() => findDuplicateGroups(sorData), [sorData]);
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Find Duplicates</h3>
+          <p className="text-sm text-slate-500">
+            {groups.length === 0 ? 'No duplicate rate cards found.' : `${groups.length} group${groups.length === 1 ? '' : 's'} of rate cards that look like the same item.`}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4 overflow-y-auto">
+        {groups.length === 0 && (
+          <div className="text-center py-10">
+            <Info className="w-10 h-10 text-slate-300 mx-auto mb-3" />
+            <p className="text-sm text-slate-400">Rate cards match when they share a unit and source and have the same or near-identical wording.</p>
+          </div>
+        )}
+        {groups.map(group => (
+          <div key={group[0].id} className="p-4 border border-slate-200 rounded-2xl space-y-2">
+            {group.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-slate-50">
+                <div className="min-w-0">
+                  <div className="font-semibold text-slate-700 text-sm truncate">{item.name}</div>
+                  <div className="text-[11px] text-slate-400 truncate">
+                    {item.source || 'Standard Reference'} · added {new Date(getVersions(item)[0].validFrom).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm font-black text-slate-900">₹{item.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{item.unit}</span></span>
+                  <button
+                    onClick={() => onDelete(group.filter(other => other.id !== item.id).map(other => other.id))}
+                    title="Keep this one and delete the others"
+                    className="flex items-center px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[11px] font-bold hover:bg-black transition-all"
+                  >
+                    <Check className="w-3 h-3 mr-1" /> Keep
+                  </button>
+                  <button onClick={() => onDelete([item.id])} title="Delete" className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinder;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CostIndex, EscalationSettings } from '../types.ts';
+
+interface EscalationPanelProps {
+  escalation: EscalationSettings;
+  tenderYear: number;
+  onChange: (escalation: EscalationSettings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const EscalationPanel: React.FC<EscalationPanelProps> = ({ escalation, tenderYear, onChange }) => {
+  const set = <K extends keyof EscalationSettings>(key: K, value: EscalationSettings[K]) => onChange({ ...escalation, [key]: value });
+
+  const updateIndex = (id: string, patch: Partial<CostIndex>) =>
+    set('indices', escalation.indices.map(i => i.id === id ? { ...i, ...patch } : i));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-5 animate-in slide-in-from-top-4 duration-300">
+      <div className="flex flex-wrap items-end gap-6">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+          <input type="checkbox" checked={escalation.enabled} onChange={e => set('enabled', e.target.checked)} />
+          Escalate rate cards to {tenderYear}
+        </label>
+        <div className="w-40">
+          <label className={labelClass}>Annual Escalation (%)</label>
+          <input type="number" min={0} step="0.01" className={inputClass} value={escalation.annualPercent} onChange={e => set('annualPercent', Math.max(parseFloat(e.target.value) || 0, 0))} />
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        A rate card's year comes from its source (e.g. "DSR 2021"), else the date it was entered. Where a source has cost indices for both
+        that year and the tender year, their ratio is used; otherwise the annual percentage is compounded.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Cost Indices</span>
+          <button
+            onClick={() => set('indices', [...escalation.indices, { id: crypto.randomUUID(), source: '', year: tenderYear, value: 100 }])}
+            className="flex items-center text-[11px] font-bold text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-3 h-3 mr-1" /> Add Index
+          </button>
+        </div>
+        {escalation.indices.length === 0 && <p className="text-[11px] text-slate-400 italic">No indices defined; the annual percentage applies to every source.</p>}
+        {escalation.indices.map(index => (
+          <div key={index.id} className="flex items-center gap-3">
+            <input type="text" className={inputClass} placeholder="Source, e.g. DSR (blank = all)" value={index.source} onChange={e => updateIndex(index.id, { source: e.target.value })} />
+            <input type="number" min={1900} className={`${inputClass} w-24 shrink-0`} title="Year" value={index.year} onChange={e => updateIndex(index.id, { year: parseInt(e.target.value) || tenderYear })} />
+            <input type="number" min={0} step="0.01" className={`${inputClass} w-24 shrink-0`} title="Index value" value={index.value} onChange={e => updateIndex(index.id, { value: Math.max(parseFloat(e.target.value) || 0, 0) })} />
+            <button onClick={() => set('indices', escalation.indices.filter(i => i.id !== index.id))} className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EscalationPanel;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, ListPlus } from 'lucide-react';
+import { DuplicateResolution, ImportRow, RateDraft } from '../services/duplicates.ts';
+
+interface ImportReconcilerProps {
+  rows: ImportRow[];
+  onConfirm: (rows: ImportRow[]) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTIONS: { value: DuplicateResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keep-both', label: 'Keep Both' },
+];
+
+// A row repeating an earlier one in the same import has no saved card to overwrite
+const canResolve = (row: ImportRow, resolution: DuplicateResolution) => resolution !== 'overwrite' || row.match?.within !== 'import';
+
+const ImportReconciler: React.FC<ImportReconcilerProps> = ({ rows: initialRows, onConfirm, onCancel }) => {
+  const [rows, setRows] = useState(initialRows);
+
+  const conflicts = rows.map((row, index) => ({ row, index })).filter(({ row }) => row.match);
+  const newCount = rows.length - conflicts.length;
+  const setResolution = (index: number, resolution: DuplicateResolution) =>
+    setRows(prev => prev.map((r, i) => i === index ? { ...r, resolution } : r));
+
+  const counts = {
+    added: newCount + conflicts.filter(c => c.row.resolution === 'keep-both').length,
+    overwritten: conflicts.filter(c => c.row.resolution === 'overwrite').length,
+    skipped: conflicts.filter(c => c.row.resolution === 'skip').length,
+  };
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Review Duplicates</h3>
+          <p className="text-sm text-slate-500">{conflicts.length} of {rows.length} imported rows already exist in the database or earlier in the import.</p>
+        </div>
+        <button onClick={onCancel} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-6 pt-4 flex items-center gap-2 text-[11px] font-bold text-slate-400 uppercase tracking-widest">
+        Set all to
+        {RESOLUTIONS.map(r => (
+          <button
+            key={r.value}
+            onClick={() => setRows(prev => prev.map(row => row.match && canResolve(row, r.value) ? { ...row, resolution: r.value } : row))}
+            className="px-3 py-1 bg-slate-100 rounded-lg text-slate-600 hover:bg-indigo-50 hover:text-indigo-600 normal-case tracking-normal"
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-6 space-y-3 overflow-y-auto">
+        {conflicts.map(({ row, index }) => {
+          const sides: [string, RateDraft][] = [
+            ['Incoming', row.draft],
+            [row.match!.within === 'database' ? 'In Database' : `Row ${row.match!.earlierRow + 1} of Import`, row.match!.existing],
+          ];
+          return (
+            <div key={index} className="p-4 bg-white border border-slate-200 rounded-2xl space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${row.match!.kind === 'exact' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                  {row.match!.kind === 'exact' ? 'Same name, unit and source' : `${Math.round(row.match!.similarity * 100)}% similar`}
+                </span>
+                <div className="flex p-1 bg-slate-100 rounded-xl border border-slate-200">
+                  {RESOLUTIONS.filter(r => canResolve(row, r.value)).map(r => (
+                    <button
+                      key={r.value}
+                      onClick={() => setResolution(index, r.value)}
+                      className={`px-3 py-1 text-[11px] font-bold rounded-lg ${row.resolution === r.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                {sides.map(([label, rate]) => (
+                  <div key={label} className="p-3 bg-slate-50 rounded-xl min-w-0">
+                    <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</div>
+                    <div className="font-semibold text-slate-700 truncate">{rate.name}</div>
+                    <div className="text-[11px] text-slate-400 truncate">{rate.source || 'Standard Reference'}</div>
+                    <div className="font-black text-slate-900 mt-1">₹{rate.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{rate.unit}</span></div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-6 border-t border-slate-100 flex gap-2">
+        <button onClick={onCancel} className="px-5 py-3 text-sm font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+        <button onClick={() => onConfirm(rows)} className="flex-1 py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 shadow-lg font-bold flex items-center justify-center">
+          <ListPlus className="w-5 h-5 mr-2" /> Add {counts.added}, Overwrite {counts.overwritten}, Skip {counts.skipped}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReconciler;
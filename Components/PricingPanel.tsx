@@ -0,0 +1,85 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { GstSlab, PricingAdjustments, RoundingRule } from '../types.ts';
+import { ROUNDING_LABELS } from '../services/pricing.ts';
+
+interface PricingPanelProps {
+  pricing: PricingAdjustments;
+  onChange: (pricing: PricingAdjustments) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const percentValue = (value: string) => Math.max(parseFloat(value) || 0, 0);
+
+const PricingPanel: React.FC<PricingPanelProps> = ({ pricing, onChange }) => {
+  const set = <K extends keyof PricingAdjustments>(key: K, value: PricingAdjustments[K]) => onChange({ ...pricing, [key]: value });
+
+  const updateSlab = (id: string, patch: Partial<GstSlab>) =>
+    set('gstSlabs', pricing.gstSlabs.map(s => s.id === id ? { ...s, ...patch } : s));
+
+  const removeSlab = (id: string) => {
+    const gstSlabs = pricing.gstSlabs.filter(s => s.id !== id);
+    onChange({ ...pricing, gstSlabs, defaultSlabId: pricing.defaultSlabId === id ? gstSlabs[0].id : pricing.defaultSlabId });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-5 animate-in slide-in-from-top-4 duration-300">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClass}>Overheads (%)</label>
+          <input type="number" min={0} step="0.01" className={inputClass} value={pricing.overheadPercent} onChange={e => set('overheadPercent', percentValue(e.target.value))} />
+        </div>
+        <div>
+          <label className={labelClass}>Profit (%)</label>
+          <input type="number" min={0} step="0.01" className={inputClass} value={pricing.profitPercent} onChange={e => set('profitPercent', percentValue(e.target.value))} />
+        </div>
+        <div>
+          <label className={labelClass}>Labour Cess (%)</label>
+          <input type="number" min={0} step="0.01" className={inputClass} value={pricing.labourCessPercent} onChange={e => set('labourCessPercent', percentValue(e.target.value))} />
+        </div>
+        <div>
+          <label className={labelClass}>Rounding</label>
+          <select className={inputClass} value={pricing.rounding} onChange={e => set('rounding', e.target.value as RoundingRule)}>
+            {(Object.keys(ROUNDING_LABELS) as RoundingRule[]).map(r => <option key={r} value={r}>{ROUNDING_LABELS[r]}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400">Profit is charged on base plus overheads, labour cess on the works cost, and GST per line on its marked-up amount.</p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">GST Slabs</span>
+          <button
+            onClick={() => set('gstSlabs', [...pricing.gstSlabs, { id: crypto.randomUUID(), label: 'New Slab', percent: 18 }])}
+            className="flex items-center text-[11px] font-bold text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-3 h-3 mr-1" /> Add Slab
+          </button>
+        </div>
+        {pricing.gstSlabs.map(slab => (
+          <div key={slab.id} className="flex items-center gap-3">
+            <label className="flex items-center gap-1.5 text-[11px] text-slate-500 shrink-0" title="Applied to lines without a slab">
+              <input type="radio" name="default-slab" checked={pricing.defaultSlabId === slab.id} onChange={() => set('defaultSlabId', slab.id)} /> Default
+            </label>
+            <input type="text" className={inputClass} value={slab.label} onChange={e => updateSlab(slab.id, { label: e.target.value })} />
+            <div className="flex items-center gap-1 shrink-0">
+              <input type="number" min={0} step="0.01" className={`${inputClass} w-20`} value={slab.percent} onChange={e => updateSlab(slab.id, { percent: percentValue(e.target.value) })} />
+              <span className="text-xs text-slate-400">%</span>
+            </div>
+            <button
+              onClick={() => removeSlab(slab.id)}
+              disabled={pricing.gstSlabs.length === 1}
+              className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PricingPanel;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { X, FileText, Loader2, ImagePlus } from 'lucide-react';
+import { QuotationProfile, Tender } from '../types.ts';
+import { exportQuotationPdf } from '../services/quotationPdf.ts';
+import { breakdownRows, calculateQuoteBreakdown } from '../services/tenders.ts';
+
+interface QuotationDialogProps {
+  tender: Tender;
+  profile: QuotationProfile;
+  onProfileChange: (profile: QuotationProfile) => void;
+  onClose: () => void;
+}
+
+const MAX_LOGO_BYTES = 300 * 1024;
+
+const inputClass = "w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const QuotationDialog: React.FC<QuotationDialogProps> = ({ tender, profile, onProfileChange, onClose }) => {
+  const [form, setForm] = useState<QuotationProfile>(profile);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const breakdown = calculateQuoteBreakdown(tender.items, tender.pricing);
+  const set = <K extends keyof QuotationProfile>(key: K, value: QuotationProfile[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    // The logo is kept in the saved settings, so it has to stay small enough for localStorage
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo must be smaller than 300 KB.');
+      return;
+    }
+    setError('');
+    const reader = new FileReader();
+    reader.onload = () => set('logoDataUrl', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleGenerate = () => {
+    setGenerating(true);
+    setError('');
+    try {
+      onProfileChange(form);
+      exportQuotationPdf(tender, form);
+      onClose();
+    } catch (e) {
+      console.error("PDF generation failed:", e);
+      setError('Could not generate the PDF quotation.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-xl rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 slide-in-from-bottom-4 duration-300 flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Generate Quotation</h3>
+            <p className="text-sm text-slate-500">Letterhead and terms are remembered for the next quotation.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex gap-4 items-start">
+            <div className="flex-1">
+              <label className={labelClass}>Company Name</label>
+              <input type="text" className={inputClass} value={form.companyName} onChange={e => set('companyName', e.target.value)} />
+            </div>
+            <label className="shrink-0 w-20 h-20 mt-5 flex items-center justify-center border-2 border-dashed border-slate-200 rounded-2xl bg-slate-50/30 cursor-pointer hover:border-indigo-300 overflow-hidden" title="Upload logo">
+              {form.logoDataUrl ? <img src={form.logoDataUrl} alt="Logo" className="max-w-full max-h-full object-contain" /> : <ImagePlus className="w-6 h-6 text-slate-300" />}
+              <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={e => handleLogo(e.target.files?.[0])} />
+            </label>
+          </div>
+          {form.logoDataUrl && (
+            <button onClick={() => set('logoDataUrl', undefined)} className="text-[11px] font-bold text-slate-400 hover:text-red-500">Remove logo</button>
+          )}
+          <div>
+            <label className={labelClass}>Address</label>
+            <textarea rows={2} className={`${inputClass} resize-none`} value={form.address} onChange={e => set('address', e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Contact</label>
+              <input type="text" className={inputClass} placeholder="Phone / email" value={form.contact} onChange={e => set('contact', e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>GSTIN</label>
+              <input type="text" className={inputClass} value={form.gstin} onChange={e => set('gstin', e.target.value.toUpperCase())} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Validity (days)</label>
+              <input type="number" min={1} className={inputClass} value={form.validityDays} onChange={e => set('validityDays', Math.max(parseInt(e.target.value) || 1, 1))} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Terms & Conditions</label>
+            <textarea rows={4} className={`${inputClass} resize-none`} placeholder="One term per line" value={form.terms} onChange={e => set('terms', e.target.value)} />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl text-sm space-y-1">
+            {breakdownRows(breakdown, tender.pricing).map(([label, amount]) => (
+              <div key={label} className="flex justify-between text-slate-500"><span>{label}</span><span>₹{amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span></div>
+            ))}
+            <div className="flex justify-between font-black text-slate-900"><span>Grand Total</span><span>₹{breakdown.grandTotal.toLocaleString()}</span></div>
+          </div>
+          {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex gap-2">
+          <button onClick={onClose} className="px-5 py-3 text-sm font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+          <button onClick={handleGenerate} disabled={generating} className="flex-1 flex items-center justify-center py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg font-bold disabled:opacity-50">
+            {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />} Generate PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotationDialog;
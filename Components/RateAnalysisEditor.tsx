@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Calculator } from 'lucide-react';
+import { AnalysisCategory, BasicRate, RateAnalysis, SORItem } from '../types.ts';
+import { ANALYSIS_CATEGORIES, emptyAnalysis, summariseAnalysis } from '../services/rateAnalysis.ts';
+
+interface RateAnalysisEditorProps {
+  item: SORItem;
+  basicRates: BasicRate[];
+  onSave: (analysis: RateAnalysis | undefined) => void;
+  onAddBasicRate: (basicRate: BasicRate) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+const CATEGORIES = Object.keys(ANALYSIS_CATEGORIES) as AnalysisCategory[];
+
+const money = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const RateAnalysisEditor: React.FC<RateAnalysisEditorProps> = ({ item, basicRates, onSave, onAddBasicRate, onClose }) => {
+  const [analysis, setAnalysis] = useState<RateAnalysis>(item.analysis ?? emptyAnalysis());
+  const [newResource, setNewResource] = useState({ name: '', unit: '', rate: '', category: 'material' as AnalysisCategory });
+
+  const summary = summariseAnalysis(analysis, basicRates);
+  const byId = new Map(basicRates.map(b => [b.id, b]));
+  const set = <K extends keyof RateAnalysis>(key: K, value: RateAnalysis[K]) => setAnalysis(prev => ({ ...prev, [key]: value }));
+
+  const addLine = (basicRateId: string) =>
+    set('lines', [...analysis.lines, { id: crypto.randomUUID(), basicRateId, quantity: 1 }]);
+
+  const handleAddResource = () => {
+    const rate = parseFloat(newResource.rate);
+    if (!newResource.name.trim() || !(rate >= 0)) return;
+    const basicRate: BasicRate = {
+      id: crypto.randomUUID(),
+      name: newResource.name.trim(),
+      unit: newResource.unit.trim(),
+      rate,
+      category: newResource.category,
+      updatedAt: Date.now(),
+    };
+    onAddBasicRate(basicRate);
+    addLine(basicRate.id);
+    setNewResource({ ...newResource, name: '', unit: '', rate: '' });
+  };
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-slate-800">Rate Analysis</h3>
+          <p className="text-sm text-slate-500 truncate">{item.name} · per {item.unit}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-5 overflow-y-auto">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Analysis For ({item.unit})</label>
+            <input type="number" min={0} step="0.01" className={inputClass} value={analysis.outputQuantity} onChange={e => set('outputQuantity', Math.max(parseFloat(e.target.value) || 0, 0))} />
+          </div>
+          <div>
+            <label className={labelClass}>Overheads (%)</label>
+            <input type="number" min={0} step="0.01" className={inputClass} value={analysis.overheadPercent} onChange={e => set('overheadPercent', Math.max(parseFloat(e.target.value) || 0, 0))} />
+          </div>
+          <div>
+            <label className={labelClass}>Profit (%)</label>
+            <input type="number" min={0} step="0.01" className={inputClass} value={analysis.profitPercent} onChange={e => set('profitPercent', Math.max(parseFloat(e.target.value) || 0, 0))} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-widest">Components</div>
+          {analysis.lines.length === 0 && <p className="text-[11px] text-slate-400 italic">Add the materials, labour and equipment that go into {analysis.outputQuantity} {item.unit}.</p>}
+          {analysis.lines.map(line => {
+            const basic = byId.get(line.basicRateId);
+            return (
+              <div key={line.id} className="flex items-center gap-2">
+                <select
+                  className={inputClass}
+                  value={basic ? line.basicRateId : ''}
+                  onChange={e => set('lines', analysis.lines.map(l => l.id === line.id ? { ...l, basicRateId: e.target.value } : l))}
+                >
+                  {!basic && <option value="">— Deleted resource —</option>}
+                  {CATEGORIES.map(category => (
+                    <optgroup key={category} label={ANALYSIS_CATEGORIES[category]}>
+                      {basicRates.filter(b => b.category === category).map(b => <option key={b.id} value={b.id}>{b.name} (₹{b.rate}/{b.unit})</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+                <input
+                  type="number" min={0} step="0.001" title="Quantity"
+                  className={`${inputClass} w-24 shrink-0`}
+                  value={line.quantity}
+                  onChange={e => set('lines', analysis.lines.map(l => l.id === line.id ? { ...l, quantity: Math.max(parseFloat(e.target.value) || 0, 0) } : l))}
+                />
+                <span className="w-12 shrink-0 text-[11px] text-slate-400 truncate">{basic?.unit}</span>
+                <span className="w-24 shrink-0 text-right text-sm font-bold text-slate-700">{basic ? money(line.quantity * basic.rate) : '-'}</span>
+                <button onClick={() => set('lines', analysis.lines.filter(l => l.id !== line.id))} className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+          {basicRates.length > 0 && (
+            <button onClick={() => addLine(basicRates[0].id)} className="flex items-center text-[11px] font-bold text-indigo-600 hover:text-indigo-800">
+              <Plus className="w-3 h-3 mr-1" /> Add Component
+            </button>
+          )}
+        </div>
+
+        <div className="p-4 border border-dashed border-slate-200 rounded-2xl space-y-2">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">New Basic Rate</div>
+          <div className="flex items-center gap-2">
+            <input type="text" className={inputClass} placeholder="Resource, e.g. Cement (OPC 43)" value={newResource.name} onChange={e => setNewResource({ ...newResource, name: e.target.value })} />
+            <input type="text" className={`${inputClass} w-20 shrink-0`} placeholder="Unit" value={newResource.unit} onChange={e => setNewResource({ ...newResource, unit: e.target.value })} />
+            <input type="number" min={0} step="0.01" className={`${inputClass} w-24 shrink-0`} placeholder="Rate" value={newResource.rate} onChange={e => setNewResource({ ...newResource, rate: e.target.value })} />
+            <select className={`${inputClass} w-32 shrink-0`} value={newResource.category} onChange={e => setNewResource({ ...newResource, category: e.target.value as AnalysisCategory })}>
+              {CATEGORIES.map(c => <option key={c} value={c}>{ANALYSIS_CATEGORIES[c]}</option>)}
+            </select>
+            <button onClick={handleAddResource} disabled={!newResource.name.trim() || newResource.rate === ''} className="p-2.5 bg-slate-900 text-white rounded-xl hover:bg-black disabled:opacity-50 transition-all shrink-0">
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 rounded-2xl text-sm space-y-1 tabular-nums">
+          {CATEGORIES.map(c => (
+            <div key={c} className="flex justify-between text-slate-500"><span>{ANALYSIS_CATEGORIES[c]}</span><span>{money(summary.byCategory[c])}</span></div>
+          ))}
+          <div className="flex justify-between text-slate-500"><span>Overheads @ {analysis.overheadPercent}%</span><span>{money(summary.overhead)}</span></div>
+          <div className="flex justify-between text-slate-500"><span>Profit @ {analysis.profitPercent}%</span><span>{money(summary.profit)}</span></div>
+          <div className="flex justify-between text-slate-700 font-bold border-t border-slate-200 pt-1"><span>Cost of {analysis.outputQuantity} {item.unit}</span><span>{money(summary.total)}</span></div>
+          <div className="flex justify-between font-black text-slate-900 text-base"><span>Rate per {item.unit}</span><span>{money(summary.rate)}</span></div>
+          {summary.missing > 0 && <p className="text-xs text-red-500 font-medium">{summary.missing} component{summary.missing === 1 ? ' refers' : 's refer'} to a deleted basic rate and {summary.missing === 1 ? 'is' : 'are'} left out.</p>}
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-slate-100 flex gap-2">
+        {item.analysis && (
+          <button onClick={() => onSave(undefined)} className="px-5 py-3 text-sm font-bold text-red-400 hover:bg-red-50 rounded-xl transition-all">Remove Analysis</button>
+        )}
+        <button onClick={onClose} className="px-5 py-3 text-sm font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+        <button
+          onClick={() => onSave(analysis)}
+          disabled={analysis.lines.length === 0 || analysis.outputQuantity <= 0}
+          className="flex-1 flex items-center justify-center py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg font-bold disabled:opacity-50"
+        >
+          <Calculator className="w-4 h-4 mr-2" /> Use {money(summary.rate)} / {item.unit}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RateAnalysisEditor;
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, ClipboardPaste, ListPlus, Loader2 } from 'lucide-react';
+import { X, ClipboardPaste, Loader2, AlertCircle } from 'lucide-react';
 import { parseRatesFromText } from '../services/geminiService.ts';
+import { AiError } from '../services/aiErrors.ts';
+import { RATE_IMPORT_FIELDS, toRateDrafts } from '../services/spreadsheet.ts';
+import { parseTags } from '../services/catalogue.ts';
 import { SORItem } from '../types.ts';
+import ColumnMapper from './ColumnMapper.tsx';
+import RatePreviewGrid from './RatePreviewGrid.tsx';
 
 interface RateFormProps {
   editingItem?: SORItem | null;
@@ -12,10 +17,12 @@ interface RateFormProps {
 }
 
 const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit, onCancel }) => {
-  const [mode, setMode] = useState<'single' | 'bulk'>('single');
+  const [mode, setMode] = useState<'single' | 'file' | 'bulk'>('single');
   const [isProcessing, setIsProcessing] = useState(false);
   const [bulkText, setBulkText] = useState('');
   const [previewItems, setPreviewItems] = useState<Omit<SORItem, 'id' | 'timestamp'>[]>([]);
+  const [skippedRows, setSkippedRows] = useState(0);
+  const [scrapeError, setScrapeError] = useState<string | null>(null);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -23,6 +30,10 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
     rate: '',
     scopeOfWork: '',
     source: '',
+    itemCode: '',
+    chapter: '',
+    subCategory: '',
+    tags: '',
   });
 
   useEffect(() => {
@@ -33,6 +44,10 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
         rate: editingItem.rate.toString(),
         scopeOfWork: editingItem.scopeOfWork,
         source: editingItem.source,
+        itemCode: editingItem.itemCode ?? '',
+        chapter: editingItem.chapter ?? '',
+        subCategory: editingItem.subCategory ?? '',
+        tags: editingItem.tags?.join(', ') ?? '',
       });
       setMode('single');
     }
@@ -41,18 +56,32 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
   const handleSubmitSingle = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.rate) return;
+    const tags = parseTags(formData.tags);
     onSubmit({
-      ...formData,
+      name: formData.name,
+      unit: formData.unit,
       rate: parseFloat(formData.rate),
+      scopeOfWork: formData.scopeOfWork,
+      source: formData.source,
+      itemCode: formData.itemCode.trim() || undefined,
+      chapter: formData.chapter.trim() || undefined,
+      subCategory: formData.subCategory.trim() || undefined,
+      tags: tags.length ? tags : undefined,
     });
   };
 
   const handleScrape = async () => {
     if (!bulkText.trim()) return;
     setIsProcessing(true);
+    setScrapeError(null);
     try {
-      const extracted = await parseRatesFromText(bulkText);
-      setPreviewItems(extracted);
+      const { items, skipped } = await parseRatesFromText(bulkText);
+      setPreviewItems(items);
+      setSkippedRows(skipped);
+      if (items.length === 0) setScrapeError('No rate cards with a name and a rate were found in the text.');
+    } catch (e) {
+      console.error("Gemini rate parsing failed:", e);
+      setScrapeError(e instanceof AiError ? e.message : 'The text could not be analysed. The browser console has the details.');
     } finally {
       setIsProcessing(false);
     }
@@ -73,6 +102,7 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
       {!editingItem && (
         <div className="flex p-1 bg-slate-100 mx-6 mt-4 rounded-xl border border-slate-200">
           <button onClick={() => setMode('single')} className={`flex-1 py-2 text-sm font-medium rounded-lg ${mode === 'single' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Single Entry</button>
+          <button onClick={() => setMode('file')} className={`flex-1 py-2 text-sm font-medium rounded-lg ${mode === 'file' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Excel / CSV</button>
           <button onClick={() => setMode('bulk')} className={`flex-1 py-2 text-sm font-medium rounded-lg ${mode === 'bulk' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>AI Bulk Scrape</button>
         </div>
       )}
@@ -91,16 +121,36 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
               </div>
               <div>
                 <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Rate (₹)</label>
-                <input type="number" required step="0.01" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.rate} onChange={e => setFormData({ ...formData, rate: e.target.value })} />
+                <input type="number" required step="0.01" disabled={!!editingItem?.analysis} title={editingItem?.analysis ? 'Worked out from the rate analysis' : undefined} className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 disabled:text-slate-400" value={formData.rate} onChange={e => setFormData({ ...formData, rate: e.target.value })} />
               </div>
             </div>
             <div>
               <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Scope of Work</label>
               <textarea required rows={4} className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none resize-none bg-slate-50/30" value={formData.scopeOfWork} onChange={e => setFormData({ ...formData, scopeOfWork: e.target.value })} />
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Source</label>
+                <input type="text" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.source} onChange={e => setFormData({ ...formData, source: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Item Code</label>
+                <input type="text" placeholder="e.g. 2.8.1" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.itemCode} onChange={e => setFormData({ ...formData, itemCode: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Chapter</label>
+                <input type="text" placeholder="e.g. Earth Work" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.chapter} onChange={e => setFormData({ ...formData, chapter: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Sub-category</label>
+                <input type="text" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.subCategory} onChange={e => setFormData({ ...formData, subCategory: e.target.value })} />
+              </div>
+            </div>
             <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Source</label>
-              <input type="text" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.source} onChange={e => setFormData({ ...formData, source: e.target.value })} />
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Tags</label>
+              <input type="text" placeholder="Comma separated, e.g. excavation, manual" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={formData.tags} onChange={e => setFormData({ ...formData, tags: e.target.value })} />
             </div>
             <button type="submit" className="w-full py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg font-bold mt-4 transition-all">
               {editingItem ? 'Update Rate Card' : 'Add to Database'}
@@ -108,27 +158,35 @@ const RateForm: React.FC<RateFormProps> = ({ editingItem, onSubmit, onBulkSubmit
           </form>
         ) : (
           <div className="space-y-6">
-            {!previewItems.length ? (
+            {!previewItems.length && mode === 'file' ? (
+              <ColumnMapper
+                fields={RATE_IMPORT_FIELDS}
+                onImport={records => {
+                  const { items, skipped } = toRateDrafts(records);
+                  setPreviewItems(items);
+                  setSkippedRows(skipped);
+                }}
+                onCancel={() => setMode('single')}
+              />
+            ) : !previewItems.length ? (
               <div className="space-y-4">
                 <textarea rows={8} className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 font-mono text-sm" placeholder="Paste SOR text here..." value={bulkText} onChange={e => setBulkText(e.target.value)} />
                 <button onClick={handleScrape} disabled={isProcessing || !bulkText.trim()} className="w-full py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg font-bold flex items-center justify-center disabled:opacity-50">
                   {isProcessing ? <><Loader2 className="w-5 h-5 mr-2 animate-spin" /> Analysing...</> : <><ClipboardPaste className="w-5 h-5 mr-2" /> Scrape Data</>}
                 </button>
+                {scrapeError && (
+                  <p className="flex items-start gap-2 px-4 py-3 bg-red-50 border border-red-200 rounded-xl text-xs text-red-700 font-medium">
+                    <AlertCircle className="w-4 h-4 shrink-0" /> {scrapeError}
+                  </p>
+                )}
               </div>
             ) : (
-              <div className="space-y-4">
-                <div className="space-y-3">
-                  {previewItems.map((item, idx) => (
-                    <div key={idx} className="p-3 bg-white border border-slate-200 rounded-xl shadow-sm">
-                      <div className="flex justify-between items-start mb-1"><span className="font-bold text-slate-800 text-sm">{item.name}</span><span className="font-black text-indigo-600 text-sm">₹{item.rate}</span></div>
-                      <p className="text-[11px] text-slate-500 line-clamp-2 italic">{item.scopeOfWork}</p>
-                    </div>
-                  ))}
-                </div>
-                <button onClick={() => onBulkSubmit(previewItems)} className="w-full py-4 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 shadow-lg font-bold flex items-center justify-center">
-                  <ListPlus className="w-5 h-5 mr-2" /> Import All Verified
-                </button>
-              </div>
+              <RatePreviewGrid
+                items={previewItems}
+                skippedRows={skippedRows}
+                onImport={onBulkSubmit}
+                onDiscard={() => { setPreviewItems([]); setSkippedRows(0); }}
+              />
             )}
           </div>
         )}
@@ -0,0 +1,132 @@
+import React from 'react';
+import { X, TrendingDown, TrendingUp } from 'lucide-react';
+import { RateChange, RateVersion, SORItem } from '../types.ts';
+import { getVersions } from '../services/rateHistory.ts';
+
+interface RateHistoryProps {
+  item: SORItem;
+  userName: string;
+  onUserNameChange: (userName: string) => void;
+  onClose: () => void;
+}
+
+const CHANGE_LABELS: Record<RateChange, string> = {
+  created: 'Created',
+  edited: 'Edited',
+  imported: 'Re-imported',
+  analysis: 'Rate analysis',
+  'basic-rate': 'Basic rate change',
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const PAD = 24;
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Rates hold until the next version, so the trend is drawn as steps up to today
+const TrendChart: React.FC<{ versions: RateVersion[] }> = ({ versions }) => {
+  const now = Date.now();
+  const start = versions[0].validFrom;
+  const span = Math.max(now - start, 1);
+  const rates = versions.map(v => v.rate);
+  const min = Math.min(...rates);
+  const max = Math.max(...rates);
+  const range = max - min || Math.max(max, 1);
+  const x = (time: number) => PAD + ((time - start) / span) * (CHART_WIDTH - PAD * 2);
+  const y = (rate: number) => CHART_HEIGHT - PAD - ((rate - (max === min ? min - range / 2 : min)) / range) * (CHART_HEIGHT - PAD * 2);
+
+  const path = versions.map((v, i) => {
+    const end = versions[i + 1]?.validFrom ?? now;
+    return `${i === 0 ? 'M' : 'L'}${x(v.validFrom)},${y(v.rate)} H${x(end)}`;
+  }).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+      <line x1={PAD} x2={CHART_WIDTH - PAD} y1={CHART_HEIGHT - PAD} y2={CHART_HEIGHT - PAD} className="stroke-slate-200" />
+      <path d={path} fill="none" className="stroke-indigo-500" strokeWidth={2.5} strokeLinejoin="round" />
+      {versions.map((v, i) => (
+        <circle key={i} cx={x(v.validFrom)} cy={y(v.rate)} r={4} className="fill-white stroke-indigo-600" strokeWidth={2}>
+          <title>{`${formatDate(v.validFrom)}: ₹${v.rate.toLocaleString()}`}</title>
+        </circle>
+      ))}
+      <text x={PAD} y={CHART_HEIGHT - 6} className="fill-slate-400 text-[10px]">{formatDate(start)}</text>
+      <text x={CHART_WIDTH - PAD} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-slate-400 text-[10px]">Today</text>
+      <text x={PAD} y={y(max) - 8} className="fill-slate-400 text-[10px]">₹{max.toLocaleString()}</text>
+      {min !== max && <text x={PAD} y={y(min) + 14} className="fill-slate-400 text-[10px]">₹{min.toLocaleString()}</text>}
+    </svg>
+  );
+};
+
+const RateHistory: React.FC<RateHistoryProps> = ({ item, userName, onUserNameChange, onClose }) => {
+  const versions = getVersions(item);
+
+  return (
+    <div className="flex flex-col max-h-[90vh]">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-slate-800">Rate History</h3>
+          <p className="text-sm text-slate-500 truncate">{item.name} · {versions.length} version{versions.length === 1 ? '' : 's'}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors text-slate-400">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6 overflow-y-auto">
+        <TrendChart versions={versions} />
+
+        <div className="space-y-2">
+          {[...versions].reverse().map((v, i, newestFirst) => {
+            const older = newestFirst[i + 1];
+            const change = older && older.rate ? ((v.rate - older.rate) / older.rate) * 100 : null;
+            // Versions saved before names, codes and tags were recorded cannot show changes to them
+            const named = older?.name !== undefined && v.name !== undefined;
+            return (
+              <div key={`${v.validFrom}-${i}`} className="p-3 rounded-xl border border-slate-100 bg-white">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-[11px] text-slate-400">
+                    <span className="font-bold text-slate-600">{formatDate(v.validFrom)}</span>
+                    {' · '}{CHANGE_LABELS[v.change]}{v.changedBy && ` by ${v.changedBy}`}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {change !== null && change !== 0 && (
+                      <span className={`text-[10px] font-bold flex items-center px-2 py-0.5 rounded-full ${change < 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                        {change < 0 ? <TrendingDown className="w-3 h-3 mr-1" /> : <TrendingUp className="w-3 h-3 mr-1" />}
+                        {Math.abs(change).toFixed(1)}%
+                      </span>
+                    )}
+                    <span className="text-sm font-black text-slate-900">
+                      {older && older.rate !== v.rate && <span className="text-slate-300 line-through font-bold mr-2">₹{older.rate.toLocaleString()}</span>}
+                      ₹{v.rate.toLocaleString()}<span className="text-[10px] font-bold text-slate-400"> /{v.unit}</span>
+                    </span>
+                  </div>
+                </div>
+                {named && older.name !== v.name && <p className="text-[11px] text-indigo-500 mt-1 line-clamp-2">Renamed: {older.name} → {v.name}</p>}
+                {named && (older.itemCode ?? '') !== (v.itemCode ?? '') && <p className="text-[11px] text-indigo-500 mt-1">Code: {older.itemCode || '—'} → {v.itemCode || '—'}</p>}
+                {named && (older.chapter ?? '') !== (v.chapter ?? '') && <p className="text-[11px] text-indigo-500 mt-1">Chapter: {older.chapter || '—'} → {v.chapter || '—'}</p>}
+                {named && (older.tags ?? []).join(', ') !== (v.tags ?? []).join(', ') && <p className="text-[11px] text-indigo-500 mt-1">Tags: {(v.tags ?? []).join(', ') || '—'}</p>}
+                {older && older.source !== v.source && <p className="text-[11px] text-indigo-500 mt-1">Source: {older.source || '—'} → {v.source || '—'}</p>}
+                {older && older.unit !== v.unit && <p className="text-[11px] text-indigo-500 mt-1">Unit: {older.unit} → {v.unit}</p>}
+                {older && older.scopeOfWork !== v.scopeOfWork && <p className="text-[11px] text-slate-500 italic mt-1 line-clamp-2">Scope revised: "{v.scopeOfWork}"</p>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-slate-100 flex items-center gap-3">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest shrink-0">Record my changes as</label>
+        <input
+          type="text"
+          className="flex-1 px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm"
+          placeholder="Your name"
+          value={userName}
+          onChange={e => onUserNameChange(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RateHistory;
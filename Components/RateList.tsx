@@ -1,22 +1,29 @@
 
-import React from 'react';
-import { Trash2, Edit3, TrendingDown, Info } from 'lucide-react';
-import { SORItem } from '../types.ts';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trash2, Edit3, TrendingDown, Info, Calculator, History, Link2, AlertTriangle } from 'lucide-react';
+import { BenchmarkSettings, SORItem } from '../types.ts';
+import { benchmarkRoles } from '../services/benchmark.ts';
+import { sourceLabel } from '../services/catalogue.ts';
+
+// Rendering thousands of cards at once stalls the page, so results are shown a page at a time
+const PAGE_SIZE = 60;
 
 interface RateListProps {
   rates: SORItem[];
   allRates: SORItem[];
+  benchmark: BenchmarkSettings;
   onDelete: (id: string) => void;
   onEdit: (item: SORItem) => void;
+  onAnalyse: (item: SORItem) => void;
+  onHistory: (item: SORItem) => void;
+  onBenchmark: (item: SORItem) => void;
 }
 
-const RateList: React.FC<RateListProps> = ({ rates, allRates, onDelete, onEdit }) => {
-  const isLowest = (item: SORItem) => {
-    const sameItems = allRates.filter(r => r.name.toLowerCase() === item.name.toLowerCase());
-    if (sameItems.length <= 1) return false;
-    const lowestRate = Math.min(...sameItems.map(r => r.rate));
-    return item.rate === lowestRate;
-  };
+const RateList: React.FC<RateListProps> = ({ rates, allRates, benchmark, onDelete, onEdit, onAnalyse, onHistory, onBenchmark }) => {
+  const roles = useMemo(() => benchmarkRoles(allRates, benchmark), [allRates, benchmark]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  useEffect(() => setVisibleCount(PAGE_SIZE), [rates]);
 
   if (rates.length === 0) {
     return (
@@ -28,48 +35,78 @@ const RateList: React.FC<RateListProps> = ({ rates, allRates, onDelete, onEdit }
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {rates.map(item => {
-        const lowest = isLowest(item);
-        return (
-          <div key={item.id} className={`bg-white rounded-xl border p-5 transition-all hover:shadow-md relative flex flex-col ${lowest ? 'border-emerald-200 ring-1 ring-emerald-100' : 'border-slate-200'}`}>
-            {lowest && (
-              <div className="absolute top-4 right-4 bg-emerald-100 text-emerald-700 text-[10px] font-bold px-2 py-1 rounded-full flex items-center uppercase tracking-wider no-print">
-                <TrendingDown className="w-3 h-3 mr-1" />
-                Benchmark
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {rates.slice(0, visibleCount).map(item => {
+          const role = roles.get(item.id);
+          return (
+            <div key={item.id} className={`bg-white rounded-xl border p-5 transition-all hover:shadow-md relative flex flex-col ${role === 'benchmark' ? 'border-emerald-200 ring-1 ring-emerald-100' : 'border-slate-200'}`}>
+              {role === 'benchmark' && (
+                <div className="absolute top-4 right-4 bg-emerald-100 text-emerald-700 text-[10px] font-bold px-2 py-1 rounded-full flex items-center uppercase tracking-wider no-print">
+                  <TrendingDown className="w-3 h-3 mr-1" />
+                  Benchmark
+                </div>
+              )}
+              {role === 'outlier' && (
+                <div title="Suspiciously low against equivalent rates; left out of the benchmark" className="absolute top-4 right-4 bg-amber-100 text-amber-700 text-[10px] font-bold px-2 py-1 rounded-full flex items-center uppercase tracking-wider no-print">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Outlier
+                </div>
+              )}
+              
+              <div className="mb-4 pr-16 md:pr-0">
+                <span className="text-[10px] uppercase font-semibold text-indigo-500 tracking-wider mb-1 block">
+                  {[sourceLabel(item), item.chapter, item.subCategory].filter(Boolean).join(' › ')}
+                </span>
+                <h4 className="text-lg font-bold text-slate-800 leading-tight">
+                  {item.itemCode && <span className="font-mono text-slate-400 font-semibold mr-1.5">{item.itemCode}</span>}
+                  {item.name}
+                </h4>
+                <p className="text-sm text-slate-500 mt-1">Unit: {item.unit}</p>
+                {item.tags && item.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {item.tags.map(tag => <span key={tag} className="text-[10px] font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">#{tag}</span>)}
+                  </div>
+                )}
               </div>
-            )}
-            
-            <div className="mb-4 pr-16 md:pr-0">
-              <span className="text-[10px] uppercase font-semibold text-indigo-500 tracking-wider mb-1 block">
-                {item.source || 'Standard Reference'}
-              </span>
-              <h4 className="text-lg font-bold text-slate-800 leading-tight">{item.name}</h4>
-              <p className="text-sm text-slate-500 mt-1">Unit: {item.unit}</p>
-            </div>
 
-            <div className="flex-1 mb-4">
-              <div className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-1">Scope of Work</div>
-              <p className="text-sm text-slate-600 line-clamp-3 italic leading-relaxed">"{item.scopeOfWork}"</p>
-            </div>
-
-            <div className="pt-4 border-t border-slate-100 flex items-center justify-between">
-              <div>
-                <span className="text-xs text-slate-400 block mb-1">Rate</span>
-                <span className="text-2xl font-black text-slate-900">₹{item.rate.toLocaleString()}</span>
+              <div className="flex-1 mb-4">
+                <div className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-1">Scope of Work</div>
+                <p className="text-sm text-slate-600 line-clamp-3 italic leading-relaxed">"{item.scopeOfWork}"</p>
               </div>
-              <div className="flex items-center space-x-1 no-print">
-                <button onClick={() => onEdit(item)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
-                  <Edit3 className="w-4 h-4" />
-                </button>
-                <button onClick={() => onDelete(item.id)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
-                  <Trash2 className="w-4 h-4" />
-                </button>
+
+              <div className="pt-4 border-t border-slate-100 flex items-center justify-between">
+                <div>
+                  <span className="text-xs text-slate-400 block mb-1">Rate{item.analysis && <span className="ml-1 text-indigo-500 font-bold">· from analysis</span>}</span>
+                  <span className="text-2xl font-black text-slate-900">₹{item.rate.toLocaleString()}</span>
+                </div>
+                <div className="flex items-center space-x-1 no-print">
+                  <button onClick={() => onHistory(item)} title={`Rate history${item.versions && item.versions.length > 1 ? ` (${item.versions.length} versions)` : ''}`} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                    <History className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onBenchmark(item)} title="Benchmark group" className={`p-2 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all ${item.benchmarkGroupId ? 'text-indigo-500' : 'text-slate-400'}`}>
+                    <Link2 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onAnalyse(item)} title="Rate analysis" className={`p-2 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all ${item.analysis ? 'text-indigo-500' : 'text-slate-400'}`}>
+                    <Calculator className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onEdit(item)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                    <Edit3 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(item.id)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
-        );
-      })}
+          );
+        })}
+      </div>
+      {rates.length > visibleCount && (
+        <button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="w-full py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:text-indigo-600 shadow-sm transition-all no-print">
+          Show {Math.min(PAGE_SIZE, rates.length - visibleCount)} More of {(rates.length - visibleCount).toLocaleString()} Remaining
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { ListPlus, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { RateDraft } from '../services/duplicates.ts';
+import { parseNumber } from '../services/spreadsheet.ts';
+
+interface RatePreviewGridProps {
+  items: RateDraft[];
+  skippedRows: number;
+  onImport: (items: RateDraft[]) => void;
+  onDiscard: () => void;
+}
+
+interface PreviewRow {
+  key: number;
+  selected: boolean;
+  name: string;
+  unit: string;
+  // Kept as typed so a half-entered figure such as "12." is not rewritten mid-edit
+  rate: string;
+  scopeOfWork: string;
+  source: string;
+  itemCode: string;
+  chapter: string;
+  subCategory?: string;
+  tags?: string[];
+}
+
+const rowProblems = (row: PreviewRow): string[] => {
+  const problems: string[] = [];
+  const rate = parseNumber(row.rate);
+  if (!row.name.trim()) problems.push('Missing item name');
+  if (!row.unit.trim()) problems.push('Missing unit');
+  if (rate === null) problems.push('Missing rate');
+  else if (rate <= 0) problems.push('Rate must be above zero');
+  return problems;
+};
+
+const toDraft = (row: PreviewRow): RateDraft => ({
+  name: row.name.trim(),
+  unit: row.unit.trim(),
+  rate: parseNumber(row.rate) ?? 0,
+  scopeOfWork: row.scopeOfWork.trim(),
+  source: row.source.trim(),
+  itemCode: row.itemCode.trim() || undefined,
+  chapter: row.chapter.trim() || undefined,
+  subCategory: row.subCategory,
+  tags: row.tags,
+});
+
+const inputClass = 'w-full px-3 py-1.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm';
+
+const RatePreviewGrid: React.FC<RatePreviewGridProps> = ({ items, skippedRows, onImport, onDiscard }) => {
+  // Every row the extraction got right starts selected; the rest wait until they are fixed
+  const [rows, setRows] = useState<PreviewRow[]>(() => items.map((item, key) => ({
+    key,
+    selected: true,
+    ...item,
+    rate: String(item.rate),
+    itemCode: item.itemCode ?? '',
+    chapter: item.chapter ?? '',
+  })));
+
+  const problems = new Map(rows.map(row => [row.key, rowProblems(row)]));
+  const isValid = (row: PreviewRow) => problems.get(row.key)!.length === 0;
+  const selected = rows.filter(row => row.selected && isValid(row));
+  const invalidCount = rows.filter(row => !isValid(row)).length;
+  const selectable = rows.filter(isValid);
+  const allSelected = selectable.length > 0 && selectable.every(row => row.selected);
+
+  const updateRow = (key: number, changes: Partial<PreviewRow>) =>
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+
+  const addRow = () => setRows(prev => [
+    ...prev,
+    { key: Math.max(-1, ...prev.map(row => row.key)) + 1, selected: true, name: '', unit: '', rate: '', scopeOfWork: '', source: prev[prev.length - 1]?.source ?? '', itemCode: '', chapter: prev[prev.length - 1]?.chapter ?? '' },
+  ]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest cursor-pointer">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-indigo-600"
+            checked={allSelected}
+            disabled={selectable.length === 0}
+            onChange={() => setRows(prev => prev.map(row => ({ ...row, selected: !allSelected })))}
+          />
+          {selected.length} of {rows.length} selected
+        </label>
+        <button onClick={onDiscard} className="text-xs font-bold text-slate-400 hover:text-slate-600">Start Over</button>
+      </div>
+
+      {skippedRows > 0 && (
+        <p className="text-xs text-amber-600 font-medium">{skippedRows} row{skippedRows === 1 ? '' : 's'} skipped (no item name or rate).</p>
+      )}
+      {invalidCount > 0 && (
+        <p className="text-xs text-red-600 font-medium">{invalidCount} row{invalidCount === 1 ? ' needs' : 's need'} fixing before {invalidCount === 1 ? 'it' : 'they'} can be imported.</p>
+      )}
+
+      <div className="space-y-3">
+        {rows.map(row => {
+          const rowIssues = problems.get(row.key)!;
+          return (
+            <div key={row.key} className={`p-3 bg-white border rounded-xl shadow-sm space-y-2 ${rowIssues.length ? 'border-red-200' : row.selected ? 'border-indigo-200' : 'border-slate-200 opacity-60'}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 accent-indigo-600 shrink-0"
+                  checked={row.selected && rowIssues.length === 0}
+                  disabled={rowIssues.length > 0}
+                  onChange={e => updateRow(row.key, { selected: e.target.checked })}
+                />
+                <input type="text" placeholder="Item name" className={`${inputClass} font-semibold`} value={row.name} onChange={e => updateRow(row.key, { name: e.target.value })} />
+                <button onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))} title="Remove row" className="p-1.5 text-slate-300 hover:text-red-500 transition-colors shrink-0">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 pl-6">
+                <input type="text" placeholder="Unit" className={inputClass} value={row.unit} onChange={e => updateRow(row.key, { unit: e.target.value })} />
+                <input type="text" inputMode="decimal" placeholder="Rate (₹)" className={inputClass} value={row.rate} onChange={e => updateRow(row.key, { rate: e.target.value })} />
+                <input type="text" placeholder="Source" className={inputClass} value={row.source} onChange={e => updateRow(row.key, { source: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-3 gap-2 pl-6">
+                <input type="text" placeholder="Item code" className={`${inputClass} font-mono`} value={row.itemCode} onChange={e => updateRow(row.key, { itemCode: e.target.value })} />
+                <input type="text" placeholder="Chapter" className={`${inputClass} col-span-2`} value={row.chapter} onChange={e => updateRow(row.key, { chapter: e.target.value })} />
+              </div>
+              <div className="pl-6">
+                <textarea rows={2} placeholder="Scope of work" className={`${inputClass} resize-none text-[12px]`} value={row.scopeOfWork} onChange={e => updateRow(row.key, { scopeOfWork: e.target.value })} />
+              </div>
+              {rowIssues.length > 0 && (
+                <p className="pl-6 text-[11px] text-red-600 font-medium flex items-center">
+                  <AlertCircle className="w-3 h-3 mr-1 shrink-0" /> {rowIssues.join(' · ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={addRow} className="w-full py-2.5 border-2 border-dashed border-slate-200 text-slate-400 rounded-xl hover:border-indigo-300 hover:text-indigo-600 text-sm font-bold flex items-center justify-center transition-all">
+        <Plus className="w-4 h-4 mr-1" /> Add Row
+      </button>
+
+      <button
+        onClick={() => onImport(selected.map(toDraft))}
+        disabled={selected.length === 0}
+        className="w-full py-4 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 shadow-lg font-bold flex items-center justify-center disabled:opacity-50"
+      >
+        <ListPlus className="w-5 h-5 mr-2" /> Import {selected.length} Selected
+      </button>
+    </div>
+  );
+};
+
+export default RatePreviewGrid;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, Bookmark, X, Save } from 'lucide-react';
+import { RateSearch, RateSort, SavedSearch } from '../types.ts';
+import { EMPTY_SEARCH, RATE_SORT_LABELS, activeFilterCount } from '../services/rateSearch.ts';
+
+interface RateSearchBarProps {
+  search: RateSearch;
+  units: string[];
+  sources: string[];
+  resultCount: number;
+  totalCount: number;
+  savedSearches: SavedSearch[];
+  onChange: (search: RateSearch) => void;
+  onSavedSearchesChange: (saved: SavedSearch[]) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5";
+
+const optionalNumber = (value: string) => value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+const RateSearchBar: React.FC<RateSearchBarProps> = ({ search, units, sources, resultCount, totalCount, savedSearches, onChange, onSavedSearchesChange }) => {
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const filterCount = activeFilterCount(search);
+
+  const set = <K extends keyof RateSearch>(key: K, value: RateSearch[K]) => onChange({ ...search, [key]: value });
+  const toggle = (key: 'units' | 'sources', value: string) =>
+    set(key, search[key].includes(value) ? search[key].filter(v => v !== value) : [...search[key], value]);
+
+  const handleSave = () => {
+    if (!saveName.trim()) return;
+    onSavedSearchesChange([...savedSearches, { id: crypto.randomUUID(), name: saveName.trim(), search }]);
+    setSaveName('');
+  };
+
+  const renderChips = (key: 'units' | 'sources', values: string[]) => (
+    <div className="flex flex-wrap gap-1.5">
+      {values.map(value => (
+        <button key={value} onClick={() => toggle(key, value)} className={`px-3 py-1 rounded-full text-[11px] font-bold border transition-all ${search[key].includes(value) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}>
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 no-print">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1 group">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 group-focus-within:text-indigo-500 transition-colors" />
+          <input
+            placeholder="Search names, codes, scope of work, sources and tags..."
+            className="w-full pl-11 pr-4 py-3 bg-white border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm"
+            value={search.query}
+            onChange={e => set('query', e.target.value)}
+          />
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => setFiltersOpen(!filtersOpen)} className={`shrink-0 flex items-center px-4 py-3 border rounded-2xl text-sm font-bold shadow-sm transition-all ${filtersOpen || filterCount ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`}>
+            <SlidersHorizontal className="w-4 h-4 mr-2" /> Filters{filterCount > 0 && ` (${filterCount})`}
+          </button>
+          <select className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-500 shadow-sm outline-none focus:ring-2 focus:ring-indigo-500" value={search.sort} onChange={e => set('sort', e.target.value as RateSort)}>
+            {(Object.keys(RATE_SORT_LABELS) as RateSort[]).map(sort => <option key={sort} value={sort}>{RATE_SORT_LABELS[sort]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {filtersOpen && (
+        <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-5 animate-in slide-in-from-top-4 duration-300">
+          {units.length > 1 && (
+            <div>
+              <label className={labelClass}>Unit</label>
+              {renderChips('units', units)}
+            </div>
+          )}
+          {sources.length > 1 && (
+            <div>
+              <label className={labelClass}>Source</label>
+              {renderChips('sources', sources)}
+            </div>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Rate From (₹)</label>
+              <input type="number" min={0} className={inputClass} value={search.minRate ?? ''} onChange={e => set('minRate', optionalNumber(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Rate To (₹)</label>
+              <input type="number" min={0} className={inputClass} value={search.maxRate ?? ''} onChange={e => set('maxRate', optionalNumber(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Added From</label>
+              <input type="date" className={inputClass} value={search.addedFrom ?? ''} onChange={e => set('addedFrom', e.target.value || undefined)} />
+            </div>
+            <div>
+              <label className={labelClass}>Added To</label>
+              <input type="date" className={inputClass} value={search.addedTo ?? ''} onChange={e => set('addedTo', e.target.value || undefined)} />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-100">
+            <div className="flex items-center gap-2">
+              <input className={`${inputClass} w-48`} placeholder="Name this search" value={saveName} onChange={e => setSaveName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSave()} />
+              <button onClick={handleSave} disabled={!saveName.trim()} className="flex items-center px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-bold hover:bg-black disabled:opacity-50 transition-all">
+                <Save className="w-3 h-3 mr-1" /> Save Search
+              </button>
+            </div>
+            <button onClick={() => onChange({ ...EMPTY_SEARCH, sort: search.sort })} className="text-xs font-bold text-slate-400 hover:text-slate-600">Clear All</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-400 font-medium mr-2">{resultCount === totalCount ? `${totalCount.toLocaleString()} rate cards` : `${resultCount.toLocaleString()} of ${totalCount.toLocaleString()} rate cards`}</span>
+        {savedSearches.map(saved => (
+          <span key={saved.id} className="flex items-center bg-white border border-slate-200 rounded-full pl-3 pr-1 py-0.5 font-bold text-slate-500">
+            <button onClick={() => onChange(saved.search)} className="flex items-center hover:text-indigo-600">
+              <Bookmark className="w-3 h-3 mr-1" /> {saved.name}
+            </button>
+            <button onClick={() => onSavedSearchesChange(savedSearches.filter(s => s.id !== saved.id))} title="Delete saved search" className="p-1 text-slate-300 hover:text-red-500">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RateSearchBar;
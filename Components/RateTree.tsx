@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, BookOpen, Folder } from 'lucide-react';
+import { SORItem } from '../types.ts';
+import { TreeSelection, buildRateTree } from '../services/catalogue.ts';
+
+interface RateTreeProps {
+  rates: SORItem[];
+  selection: TreeSelection | null;
+  onSelect: (selection: TreeSelection | null) => void;
+}
+
+const rowClass = (active: boolean) =>
+  `w-full flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-left text-sm transition-colors ${active ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`;
+
+const RateTree: React.FC<RateTreeProps> = ({ rates, selection, onSelect }) => {
+  const tree = useMemo(() => buildRateTree(rates), [rates]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (key: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const renderToggle = (nodeKey: string) => (
+    <span onClick={e => { e.stopPropagation(); toggle(nodeKey); }} className="p-0.5 text-slate-400 hover:text-indigo-600">
+      {expanded.has(nodeKey) ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+    </span>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-3 space-y-0.5 no-print">
+      <button onClick={() => onSelect(null)} className={rowClass(selection === null)}>
+        <BookOpen className="w-4 h-4 shrink-0" /> All Rate Cards <span className="ml-auto text-[11px] text-slate-400">{rates.length}</span>
+      </button>
+      {tree.map(source => {
+        const sourceKey = source.source;
+        return (
+          <div key={sourceKey}>
+            <button onClick={() => onSelect({ source: source.source })} className={rowClass(selection?.source === source.source && selection.chapter === undefined)}>
+              {renderToggle(sourceKey)}
+              <span className="truncate">{source.source}</span>
+              <span className="ml-auto text-[11px] text-slate-400">{source.count}</span>
+            </button>
+            {expanded.has(sourceKey) && source.chapters.map(chapter => {
+              const chapterKey = `${sourceKey}\u0000${chapter.chapter}`;
+              const chapterActive = selection?.source === source.source && selection.chapter === chapter.chapter;
+              return (
+                <div key={chapterKey} className="pl-4">
+                  <button onClick={() => onSelect({ source: source.source, chapter: chapter.chapter })} className={rowClass(chapterActive && selection?.itemId === undefined)}>
+                    {renderToggle(chapterKey)}
+                    <Folder className="w-3.5 h-3.5 shrink-0 text-slate-400" />
+                    <span className="truncate">{chapter.chapter}</span>
+                    <span className="ml-auto text-[11px] text-slate-400">{chapter.items.length}</span>
+                  </button>
+                  {expanded.has(chapterKey) && chapter.items.map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => onSelect({ source: source.source, chapter: chapter.chapter, itemId: item.id })}
+                      className={`${rowClass(selection?.itemId === item.id)} pl-9 text-[12px]`}
+                    >
+                      {item.itemCode && <span className="font-mono text-slate-400 shrink-0">{item.itemCode}</span>}
+                      <span className="truncate">{item.name}</span>
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RateTree;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { ParsedTenderLine, TenderItem } from '../types.ts';
+import { parseNumber } from '../services/spreadsheet.ts';
+
+interface TenderLineEditorProps {
+  // Omitted when a new line is being added
+  item?: TenderItem;
+  onSave: (line: ParsedTenderLine) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30 text-sm';
+const labelClass = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1';
+
+const TenderLineEditor: React.FC<TenderLineEditorProps> = ({ item, onSave, onCancel }) => {
+  const [form, setForm] = useState({
+    name: item?.name ?? '',
+    quantity: item?.quantity.toString() ?? '',
+    unit: item?.unit ?? '',
+    estimatedRate: item?.estimatedRate?.toString() ?? '',
+    requestedScope: item?.requestedScope ?? '',
+  });
+
+  const quantity = parseNumber(form.quantity);
+  const canSave = form.name.trim() !== '' && quantity !== null && quantity > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      name: form.name.trim(),
+      quantity: quantity!,
+      unit: form.unit.trim(),
+      requestedScope: form.requestedScope.trim(),
+      estimatedRate: parseNumber(form.estimatedRate) ?? undefined,
+    });
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-100 space-y-4 animate-in slide-in-from-top-4 duration-300">
+      <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
+        <div className="col-span-2 sm:col-span-3">
+          <label className={labelClass}>Item Name</label>
+          <input type="text" autoFocus className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Quantity</label>
+          <input type="text" inputMode="decimal" className={inputClass} value={form.quantity} onChange={e => setForm({ ...form, quantity: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Unit</label>
+          <input type="text" className={inputClass} value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Est. Rate (₹)</label>
+          <input type="text" inputMode="decimal" className={inputClass} value={form.estimatedRate} onChange={e => setForm({ ...form, estimatedRate: e.target.value })} />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Requested Scope</label>
+        <textarea rows={3} className={`${inputClass} resize-none`} value={form.requestedScope} onChange={e => setForm({ ...form, requestedScope: e.target.value })} />
+      </div>
+      <div className="flex justify-end items-center gap-4">
+        {item && item.status !== 'manual' && (
+          <span className="text-[10px] text-slate-400 italic">Changing the name, unit or scope matches this line again.</span>
+        )}
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-5 py-2 text-xs font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
+          <button onClick={handleSave} disabled={!canSave} className="flex items-center px-6 py-2 bg-slate-900 text-white rounded-xl font-bold text-xs shadow-xl hover:bg-black disabled:opacity-50 transition-all">
+            <Check className="w-3 h-3 mr-1" /> {item ? 'Save Line' : 'Add Line'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TenderLineEditor;
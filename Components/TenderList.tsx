@@ -0,0 +1,63 @@
+import React from 'react';
+import { FolderOpen, Copy, Trash2, CalendarDays, Building2 } from 'lucide-react';
+import { Tender } from '../types.ts';
+
+interface TenderListProps {
+  tenders: Tender[];
+  onOpen: (id: string) => void;
+  onDuplicate: (tender: Tender) => void;
+  onDelete: (id: string) => void;
+}
+
+const TenderList: React.FC<TenderListProps> = ({ tenders, onOpen, onDuplicate, onDelete }) => {
+  if (tenders.length === 0) return null;
+
+  const sorted = [...tenders].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <div className="space-y-4">
+      <div className="px-2">
+        <h2 className="text-xl font-black text-slate-800 tracking-tight">Saved Tenders</h2>
+        <p className="text-slate-500 text-xs font-medium">{tenders.length} quotation{tenders.length === 1 ? '' : 's'} on file</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {sorted.map(tender => (
+          <div key={tender.id} className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm hover:shadow-md transition-all flex flex-col">
+            <div className="flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <span className="text-[10px] uppercase font-semibold text-indigo-500 tracking-wider block truncate">
+                  {tender.referenceNumber || 'No Reference'}
+                </span>
+                <h4 className="text-lg font-bold text-slate-800 leading-tight truncate">{tender.name}</h4>
+              </div>
+              <div className="text-right">
+                <div className="text-xl font-black text-slate-900">₹{tender.total.toLocaleString()}</div>
+                <div className="text-[10px] font-bold uppercase text-slate-400 tracking-widest">{tender.items.length} Items</div>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-500">
+              {tender.client && <span className="flex items-center"><Building2 className="w-3 h-3 mr-1" /> {tender.client}</span>}
+              {tender.date && <span className="flex items-center"><CalendarDays className="w-3 h-3 mr-1" /> {tender.date}</span>}
+            </div>
+            <div className="pt-4 mt-4 border-t border-slate-100 flex items-center justify-between">
+              <span className="text-[10px] text-slate-400">Updated {new Date(tender.updatedAt).toLocaleString()}</span>
+              <div className="flex items-center space-x-1">
+                <button onClick={() => onOpen(tender.id)} className="flex items-center px-3 py-1.5 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                  <FolderOpen className="w-4 h-4 mr-1" /> Open
+                </button>
+                <button onClick={() => onDuplicate(tender)} title="Duplicate" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(tender.id)} title="Delete" className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TenderList;
@@ -1,144 +1,332 @@
 
-import React, { useState } from 'react';
-import { ClipboardList, CheckCircle, AlertCircle, Loader2, Trash2, FileSpreadsheet, Sparkles, Search, TrendingDown, TrendingUp } from 'lucide-react';
-import { SORItem, TenderItem } from '../types.ts';
-import { parseBulkItems, findBestMatchingItem } from '../services/geminiService.ts';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClipboardList, CheckCircle, AlertCircle, Loader2, Trash2, FileSpreadsheet, Sparkles, Search, TrendingDown, TrendingUp, ArrowLeft, ListChecks, PenLine, FileText, Percent, CalendarClock, Pencil, ChevronUp, ChevronDown, Plus, Clock, Play, Square, X } from 'lucide-react';
+import { AppSettings, BenchmarkStrategy, MatchAlias, EscalationSettings, MatchScope, MatchThresholds, ParsedTenderLine, PricingAdjustments, SORItem, Tender, TenderDetails, TenderItem } from '../types.ts';
+import { parseBulkItems, hasApiKey, setApiKey } from '../services/geminiService.ts';
+import { AiError } from '../services/aiErrors.ts';
+import { MATCHERS, assignRate, getMatcher, matchTenderItem, matchTenderItems } from '../services/matcher.ts';
+import { runMatchJob } from '../services/matchJob.ts';
+import { MAX_SHORTLIST_SIZE } from '../services/retrieval.ts';
+import { getBillableQuantity, formatQuantity } from '../services/units.ts';
+import { TENDER_IMPORT_FIELDS, TenderImportKey, toTenderLines } from '../services/spreadsheet.ts';
+import { exportQuotationXlsx } from '../services/quotationExport.ts';
+import { createTender, newTenderLine, editTenderLine, moveTenderLine, withTenderItems, withTenderPricing, calculateQuoteBreakdown, breakdownRows, getQuotedRate, getQuotedUnit, getLineAmount } from '../services/tenders.ts';
+import { getLineSlab } from '../services/pricing.ts';
+import { applyEscalation, getTenderYear } from '../services/escalation.ts';
+import { ratesAsOf } from '../services/rateHistory.ts';
+import { BENCHMARK_STRATEGY_LABELS } from '../services/benchmark.ts';
+import { listChapters, listSources, withinMatchScope } from '../services/catalogue.ts';
+import CandidatePicker from './CandidatePicker.tsx';
+import ColumnMapper from './ColumnMapper.tsx';
+import QuotationDialog from './QuotationDialog.tsx';
+import PricingPanel from './PricingPanel.tsx';
+import EscalationPanel from './EscalationPanel.tsx';
+import TenderLineEditor from './TenderLineEditor.tsx';
 
 interface TenderProcessorProps {
   sorData: SORItem[];
+  tender: Tender | null;
+  settings: AppSettings;
+  aliases: MatchAlias[];
+  onSave: (tender: Tender) => void;
+  // Called when the estimator settles which rate card a tender description is quoted from
+  onLearnAlias: (description: string, rateId: string) => void;
+  onClose: () => void;
+  onSettingsChange: (settings: AppSettings) => void;
 }
 
-const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
+const scopeSummary = (scope?: MatchScope) => {
+  const parts = [...(scope?.sources ?? []), ...(scope?.chapters ?? [])];
+  return parts.length ? `Matched against ${parts.join(', ')}` : '';
+};
+
+// A match found for a line only holds while the line asks for the same thing it did when sent
+const sameRequest = (a: TenderItem, b: TenderItem) => a.name === b.name && a.requestedScope === b.requestedScope && a.unit === b.unit;
+
+const emptyDetails = (): TenderDetails => ({
+  name: '',
+  client: '',
+  date: new Date().toISOString().slice(0, 10),
+  referenceNumber: '',
+});
+
+const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData, tender, settings, aliases, onSave, onLearnAlias, onClose, onSettingsChange }) => {
   const [inputText, setInputText] = useState('');
-  const [items, setItems] = useState<TenderItem[]>([]);
+  const [details, setDetails] = useState<TenderDetails>(emptyDetails);
   const [processing, setProcessing] = useState(false);
   const [confirmingItem, setConfirmingItem] = useState<string | null>(null);
+  const [pickingItem, setPickingItem] = useState<string | null>(null);
+  const [inputMode, setInputMode] = useState<'text' | 'file'>('text');
+  const [skippedRows, setSkippedRows] = useState(0);
+  // Lines of pasted text that did not end up in any extracted item
+  const [uncapturedLines, setUncapturedLines] = useState<string[]>([]);
+  const [extraction, setExtraction] = useState<{ done: number; total: number } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [quoting, setQuoting] = useState(false);
+  const [adjustingPricing, setAdjustingPricing] = useState(false);
+  const [adjustingEscalation, setAdjustingEscalation] = useState(false);
+  const [editingLine, setEditingLine] = useState<string | null>(null);
+  const [addingLine, setAddingLine] = useState(false);
+  const [rematching, setRematching] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number; stopping: boolean } | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [apiKeyDraft, setApiKeyDraft] = useState('');
+  const [apiKeySaved, setApiKeySaved] = useState(hasApiKey);
+
+  const items = tender?.items ?? [];
+  // An open tender keeps quoting from the rate cards as they stood on its as-of date
+  const tenderRates = useMemo(() => ratesAsOf(sorData, tender?.asOfDate), [sorData, tender?.asOfDate]);
+  // Automatic matching keeps to the tender's sources and chapters; the estimator can still pick any card by hand
+  const matchRates = useMemo(() => withinMatchScope(tenderRates, tender?.matchScope), [tenderRates, tender?.matchScope]);
+  const scopeSources = useMemo(() => listSources(sorData), [sorData]);
+  const scopeChapters = useMemo(() => listChapters(sorData), [sorData]);
+  const scopedRateCount = useMemo(() => withinMatchScope(sorData, details.matchScope).length, [sorData, details.matchScope]);
+
+  // Re-matching a line finishes after other edits may have landed, so updates read the latest tender
+  const tenderRef = useRef(tender);
+  tenderRef.current = tender;
+
+  // Every edit to the tender is written straight back to the saved tender
+  const saveTender = (update: (current: Tender) => Tender) => {
+    const current = tenderRef.current;
+    if (!current) return;
+    const updated = update(current);
+    tenderRef.current = updated;
+    onSave(updated);
+  };
+
+  const setItems = (update: (prev: TenderItem[]) => TenderItem[]) => saveTender(current => withTenderItems(current, update(current.items)));
+
+  // A matching job belongs to one tender and stops when another is opened or the builder closes
+  const jobRef = useRef<{ tenderId: string; controller: AbortController } | null>(null);
+  useEffect(() => {
+    if (jobRef.current && jobRef.current.tenderId !== tender?.id) jobRef.current.controller.abort();
+  }, [tender?.id]);
+  useEffect(() => () => jobRef.current?.controller.abort(), []);
+
+  // Matched lines land on the tender batch by batch; lines not reached stay pending until resumed
+  const runMatching = async (target: Tender, lines: TenderItem[]) => {
+    if (lines.length === 0) return;
+    const matcher = getMatcher(settings.matcher);
+    const controller = new AbortController();
+    jobRef.current = { tenderId: target.id, controller };
+    // A tender just created is not back from the parent yet
+    tenderRef.current = target;
+
+    const rates = withinMatchScope(ratesAsOf(sorData, target.asOfDate), target.matchScope);
+    const tenderYear = getTenderYear(target.date);
+    let done = 0;
+    setProgress({ done, total: lines.length, stopping: false });
+    setAiError(null);
+
+    await runMatchJob(lines, batch => matchTenderItems(batch, rates, matcher, { ...settings, aliases }), {
+      batchSize: matcher.batchSize,
+      concurrency: matcher.concurrency,
+      signal: controller.signal,
+      onStart: batch => setRematching(prev => [...prev, ...batch.map(i => i.id)]),
+      onBatch: (batch, matched, error) => {
+        const ids = new Set(batch.map(i => i.id));
+        setRematching(prev => prev.filter(id => !ids.has(id)));
+        if (!matched) {
+          // Retries are already spent, so the batches still to go would fail the same way
+          if (error instanceof AiError) controller.abort();
+          if (tenderRef.current?.id === target.id) reportFailure(error);
+          return;
+        }
+        if (tenderRef.current?.id !== target.id) return;
+        const results = new Map(matched.map(i => [i.id, applyEscalation(i, tenderYear, settings.escalation)]));
+        const sent = new Map(batch.map(i => [i.id, i]));
+        // Lines the estimator priced or edited in the meantime keep their changes; an edited line is matched on its own
+        setItems(prev => prev.map(i => {
+          const result = results.get(i.id);
+          const asSent = sent.get(i.id);
+          return result && asSent && i.status === 'pending' && sameRequest(i, asSent) ? result : i;
+        }));
+        done += batch.length;
+        if (!controller.signal.aborted) setProgress({ done, total: lines.length, stopping: false });
+      },
+    });
+
+    if (jobRef.current?.controller === controller) {
+      jobRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const reportFailure = (e: unknown) => setAiError(e instanceof AiError ? e.message : 'Something went wrong and nothing was changed. The browser console has the details.');
+
+  const handleStopMatching = () => {
+    jobRef.current?.controller.abort();
+    setProgress(prev => prev && { ...prev, stopping: true });
+  };
+
+  const analyseLines = (parsed: ParsedTenderLine[], tenderDetails: TenderDetails) => {
+    const created = createTender(tenderDetails, parsed.map(newTenderLine), settings.pricing);
+    onSave(created);
+    setInputText('');
+    setDetails(emptyDetails());
+    runMatching(created, created.items);
+  };
+
+  const toggleScope = (key: keyof MatchScope, value: string) => {
+    const scope = details.matchScope ?? { sources: [], chapters: [] };
+    const values = scope[key].includes(value) ? scope[key].filter(v => v !== value) : [...scope[key], value];
+    setDetails({ ...details, matchScope: { ...scope, [key]: values } });
+  };
 
   const handleProcess = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() || !details.name.trim()) return;
     setProcessing(true);
-    
-    // 1. Parse bulk text into structured items
-    const parsed = await parseBulkItems(inputText);
-    
-    const initialTenderItems: TenderItem[] = parsed.map(p => ({
-      id: crypto.randomUUID(),
-      name: p.name,
-      quantity: p.quantity || 1,
-      requestedScope: p.requestedScope,
-      estimatedRate: p.estimatedRate,
-      status: 'pending' as const
-    }));
+    setAiError(null);
+    try {
+      // 1. Parse bulk text into structured items
+      const { items: parsed, skipped, uncaptured } = await parseBulkItems(inputText, (done, total) => setExtraction({ done, total }));
+      setSkippedRows(skipped);
+      setUncapturedLines(uncaptured);
+      analyseLines(parsed, details);
+    } catch (e) {
+      console.error("Extracting tender lines failed:", e);
+      reportFailure(e);
+    } finally {
+      setProcessing(false);
+      setExtraction(null);
+    }
+  };
 
-    const processedItems: TenderItem[] = [];
-
-    // 2. Intelligent Matching Loop
-    for (const tenderItem of initialTenderItems) {
-      // Step A: Try Exact Name Match
-      const exactMatches = sorData.filter(sor => sor.name.toLowerCase() === tenderItem.name.toLowerCase());
-      
-      if (exactMatches.length > 0) {
-        // Pick the lowest rate among exact matches
-        const lowestExact = [...exactMatches].sort((a, b) => a.rate - b.rate)[0];
-        
-        // Check if scope is identical
-        const isScopeIdentical = lowestExact.scopeOfWork.toLowerCase().trim() === tenderItem.requestedScope.toLowerCase().trim();
-        
-        processedItems.push({
-          ...tenderItem,
-          status: isScopeIdentical ? 'matched' : 'review',
-          matchedRate: lowestExact
-        });
-        continue;
-      }
-
-      // Step B: Try Semantic/Similar Match via Gemini
-      const dbItemSummary = sorData.map(d => ({ id: d.id, name: d.name }));
-      
-      const matchedId = await findBestMatchingItem(tenderItem.name, tenderItem.requestedScope, dbItemSummary);
-      
-      if (matchedId) {
-        const bestMatch = sorData.find(d => d.id === matchedId);
-        if (bestMatch) {
-          processedItems.push({
-            ...tenderItem,
-            status: 'review', // Semantic matches always require manual review
-            matchedRate: bestMatch
-          });
-          continue;
-        }
-      }
+  // BOQ files are read column by column, so no AI extraction is involved
+  const handleFileImport = (records: Record<TenderImportKey, string>[]) => {
+    const { items: lines, skipped } = toTenderLines(records);
+    setSkippedRows(skipped);
+    setUncapturedLines([]);
+    analyseLines(lines, { ...details, name: details.name.trim() || `Imported BOQ ${details.date}` });
+  };
+
+  const updateItem = (id: string, update: (item: TenderItem) => TenderItem) => {
+    setItems(prev => prev.map(i => i.id === id ? update(i) : i));
+  };
 
-      // Step C: No Match Found
-      processedItems.push({ ...tenderItem, status: 'no-match' });
+  const handlePickRate = (id: string, rate: SORItem) => {
+    const line = items.find(i => i.id === id);
+    if (line) onLearnAlias(line.name, rate.id);
+    updateItem(id, i => applyEscalation(
+      assignRate(i, rate, 'matched', { confidence: undefined, matchReason: 'Selected by estimator.' }),
+      getTenderYear(tender?.date ?? ''),
+      settings.escalation,
+    ));
+    setPickingItem(null);
+  };
+
+  const matchLine = async (line: TenderItem) => {
+    setRematching(prev => [...prev, line.id]);
+    try {
+      const matched = await matchTenderItem(line, matchRates, getMatcher(settings.matcher), { ...settings, aliases });
+      updateItem(line.id, () => applyEscalation(matched, getTenderYear(tender?.date ?? ''), settings.escalation));
+    } catch (e) {
+      console.error("Re-matching tender line failed:", e);
+      reportFailure(e);
+    } finally {
+      setRematching(prev => prev.filter(id => id !== line.id));
     }
+  };
+
+  // Only the edited line is matched again; every other line keeps its rate
+  const handleSaveLine = (id: string, line: ParsedTenderLine) => {
+    const current = items.find(i => i.id === id);
+    if (!current) return;
+    const edit = editTenderLine(current, line);
+    updateItem(id, () => edit.item);
+    setEditingLine(null);
+    if (edit.rematch) matchLine(edit.item);
+  };
+
+  const handleAddLine = (line: ParsedTenderLine) => {
+    const added = newTenderLine(line);
+    setItems(prev => [...prev, added]);
+    setAddingLine(false);
+    matchLine(added);
+  };
+
+  const handleAcceptMatch = (item: TenderItem) => {
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'matched' } : i));
+    if (item.matchedRate) onLearnAlias(item.name, item.matchedRate.id);
+  };
+
+  const handleManualRate = (id: string, rate: number) => {
+    updateItem(id, i => ({
+      ...i,
+      status: 'manual',
+      manualRate: rate,
+      matchedRate: undefined,
+      unitFactor: undefined,
+      escalationFactor: undefined,
+      escalationBasis: undefined,
+      confidence: undefined,
+      matchReason: 'Rate entered manually.',
+    }));
+    setPickingItem(null);
+  };
 
-    setItems(processedItems);
-    setProcessing(false);
+  const updateThreshold = (key: keyof MatchThresholds, value: string) => {
+    const fraction = Math.min(Math.max((parseFloat(value) || 0) / 100, 0), 1);
+    onSettingsChange({ ...settings, thresholds: { ...settings.thresholds, [key]: fraction } });
   };
 
+  const saveApiKey = (key: string) => {
+    setApiKey(key);
+    setApiKeySaved(hasApiKey());
+    setApiKeyDraft('');
+  };
+
+  const updateShortlistSize = (value: string) =>
+    onSettingsChange({ ...settings, shortlistSize: Math.min(Math.max(Math.round(parseFloat(value) || 1), 1), MAX_SHORTLIST_SIZE) });
+
+  const confidenceBadgeClass = (confidence: number) =>
+    confidence >= settings.thresholds.matched ? 'bg-emerald-100 text-emerald-700'
+      : confidence >= settings.thresholds.review ? 'bg-amber-100 text-amber-700'
+        : 'bg-slate-100 text-slate-500';
+
+  const pendingCount = items.filter(i => i.status === 'pending' && !rematching.includes(i.id)).length;
+
+  const pricing = tender?.pricing ?? settings.pricing;
+  const breakdown = calculateQuoteBreakdown(items, pricing);
+  const summaryRows = breakdownRows(breakdown, pricing);
+
   const calculateDiff = (est?: number, quoted?: number) => {
     if (!est || !quoted) return null;
     return ((quoted - est) / est) * 100;
   };
 
-  const handleExportExcel = () => {
-    const headers = [
-      'Tender Item', 
-      'Quantity', 
-      'Requested Scope', 
-      'Estimated Rate (INR)', 
-      'Quoted Rate (INR)', 
-      'Unit', 
-      'Percentage Diff (%)',
-      'Total Quoted (INR)', 
-      'Matched Database Item',
-      'Source', 
-      'Status'
-    ];
-    
-    const rows = items.map(i => {
-      const quoted = i.matchedRate?.rate || 0;
-      const est = i.estimatedRate || 0;
-      const diff = est ? ((quoted - est) / est) * 100 : 0;
-      return [
-        i.name,
-        i.quantity,
-        i.requestedScope,
-        est || 'N/A',
-        quoted || 'N/A',
-        i.matchedRate?.unit || 'N/A',
-        est ? diff.toFixed(2) + '%' : 'N/A',
-        (i.quantity * quoted).toFixed(2),
-        i.matchedRate?.name || 'N/A',
-        i.matchedRate?.source || '',
-        i.status.toUpperCase()
-      ];
+  // Adjustments made on a tender become the starting point for the next one
+  const handlePricingChange = (pricing: PricingAdjustments) => {
+    if (!tender) return;
+    saveTender(current => withTenderPricing(current, pricing));
+    onSettingsChange({ ...settings, pricing });
+  };
+
+  const handleEscalationChange = (escalation: EscalationSettings) => {
+    onSettingsChange({ ...settings, escalation });
+    saveTender(current => {
+      const year = getTenderYear(current.date);
+      return withTenderItems(current, current.items.map(i => applyEscalation(i, year, escalation)));
     });
+  };
 
-    const generateCSV = (data: any[][]) => {
-      const content = data.map(row => 
-        row.map(cell => {
-          const val = cell === null || cell === undefined ? "" : String(cell);
-          return `"${val.replace(/"/g, '""')}"`;
-        }).join(",")
-      ).join("\r\n");
-      return "\uFEFF" + content;
-    };
-
-    const csvContent = generateCSV([headers, ...rows]);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.setAttribute("download", `Quotation_Builder_${new Date().toLocaleDateString()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExportExcel = async () => {
+    if (!tender) return;
+    setExporting(true);
+    try {
+      await exportQuotationXlsx(tender);
+    } catch (e) {
+      console.error("Excel export failed:", e);
+      window.alert('Could not generate the Excel workbook.');
+    } finally {
+      setExporting(false);
+    }
   };
 
   return (
     <div className="space-y-6">
-      {items.length === 0 ? (
+      {!tender ? (
         <div className="bg-white border border-slate-200 rounded-3xl p-6 sm:p-12 shadow-sm transition-all">
           <div className="flex items-center space-x-3 mb-6">
             <div className="bg-indigo-50 p-3 rounded-2xl">
@@ -149,28 +337,141 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
               <p className="text-slate-500 text-sm">Upload items. AI will find lowest rates and compare with your estimated prices.</p>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Tender Name</label>
+              <input type="text" required className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={details.name} onChange={e => setDetails({ ...details, name: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Client</label>
+              <input type="text" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={details.client} onChange={e => setDetails({ ...details, client: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Reference No.</label>
+              <input type="text" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={details.referenceNumber} onChange={e => setDetails({ ...details, referenceNumber: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Date</label>
+              <input type="date" className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={details.date} onChange={e => setDetails({ ...details, date: e.target.value })} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1.5">Quote Rates As Of <span className="normal-case tracking-normal font-medium">(optional)</span></label>
+              <div className="flex items-center gap-3">
+                <input type="date" max={new Date().toISOString().slice(0, 10)} className="w-full sm:w-1/2 px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50/30" value={details.asOfDate ?? ''} onChange={e => setDetails({ ...details, asOfDate: e.target.value || undefined })} />
+                <span className="text-[11px] text-slate-400">Leave blank to use the latest rates; pick a date to re-quote with the rate cards as they stood then.</span>
+              </div>
+            </div>
+            {(scopeSources.length > 1 || scopeChapters.length > 1) && (
+              <div className="sm:col-span-2 space-y-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest">Match Against <span className="normal-case tracking-normal font-medium">(optional — all rate cards when none are picked)</span></label>
+                {([['sources', scopeSources], ['chapters', scopeChapters]] as [keyof MatchScope, string[]][]).map(([key, values]) => values.length > 1 && (
+                  <div key={key} className="flex flex-wrap items-center gap-1.5">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest w-16">{key === 'sources' ? 'Sources' : 'Chapters'}</span>
+                    {values.map(value => {
+                      const active = details.matchScope?.[key].includes(value);
+                      return (
+                        <button key={value} onClick={() => toggleScope(key, value)} className={`px-3 py-1 rounded-full text-[11px] font-bold border transition-all ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}>
+                          {value}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+                {scopedRateCount === 0 && <p className="text-[11px] text-red-400 font-medium">No rate cards fall within the chosen sources and chapters.</p>}
+              </div>
+            )}
+          </div>
           
+          <div className="flex p-1 bg-slate-100 rounded-xl border border-slate-200 mb-4">
+            <button onClick={() => setInputMode('text')} className={`flex-1 py-2 text-sm font-medium rounded-lg ${inputMode === 'text' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Paste Text (AI)</button>
+            <button onClick={() => setInputMode('file')} className={`flex-1 py-2 text-sm font-medium rounded-lg ${inputMode === 'file' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Upload BOQ (Excel / CSV)</button>
+          </div>
+
+          {inputMode === 'file' ? (
+            <ColumnMapper fields={TENDER_IMPORT_FIELDS} onImport={handleFileImport} onCancel={() => setInputMode('text')} />
+          ) : (
           <textarea 
             className="w-full h-64 p-5 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono text-xs sm:text-sm bg-slate-50 leading-relaxed border-dashed" 
             placeholder={`Example:\n1. 5HP Centrifugal Pump, 2 units, with installation. Est Rate: 25000\n2. LT Control Panel, 400V, standard wiring. Price: 120000`} 
             value={inputText} 
             onChange={(e) => setInputText(e.target.value)} 
           />
+          )}
           
-          <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4 bg-slate-50 p-4 rounded-2xl border border-slate-100">
-            <div className="flex items-center text-xs text-slate-400">
-              <Sparkles className="w-4 h-4 mr-2 text-indigo-400" />
-              Upload includes estimated rates? AI will calculate the variance automatically.
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Matching Engine</span>
+            <div className="flex p-1 bg-slate-100 rounded-xl border border-slate-200">
+              {MATCHERS.map(m => (
+                <button key={m.id} onClick={() => onSettingsChange({ ...settings, matcher: m.id })} className={`px-4 py-1.5 text-xs font-bold rounded-lg ${settings.matcher === m.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {settings.matcher === 'gemini' && (apiKeySaved ? (
+              <span className="text-[11px] text-slate-400 font-medium">
+                Using the Gemini API key saved in this browser. <button onClick={() => saveApiKey('')} className="font-bold text-slate-500 hover:text-red-500">Forget key</button>
+              </span>
+            ) : (
+              <form onSubmit={e => { e.preventDefault(); saveApiKey(apiKeyDraft); }} className="flex items-center gap-2">
+                <input type="password" autoComplete="off" placeholder="Paste your Gemini API key" className="w-56 px-3 py-1.5 border border-red-200 rounded-lg bg-white text-xs outline-none focus:ring-2 focus:ring-indigo-500" value={apiKeyDraft} onChange={e => setApiKeyDraft(e.target.value)} />
+                <button type="submit" disabled={!apiKeyDraft.trim()} className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-black disabled:opacity-50 transition-all">Save</button>
+                <span className="text-[11px] text-slate-400 font-medium">Kept in this browser only, or switch to Offline Similarity.</span>
+              </form>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Benchmark Rate</span>
+            <div className="flex flex-wrap p-1 bg-slate-100 rounded-xl border border-slate-200">
+              {(Object.keys(BENCHMARK_STRATEGY_LABELS) as BenchmarkStrategy[]).map(strategy => (
+                <button key={strategy} onClick={() => onSettingsChange({ ...settings, benchmark: { ...settings.benchmark, strategy } })} className={`px-4 py-1.5 text-xs font-bold rounded-lg ${settings.benchmark.strategy === strategy ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>
+                  {BENCHMARK_STRATEGY_LABELS[strategy]}
+                </button>
+              ))}
             </div>
-            <button 
-              disabled={processing || !inputText.trim() || sorData.length === 0} 
-              onClick={handleProcess} 
-              className="w-full sm:w-auto px-10 py-4 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 disabled:opacity-50 flex items-center justify-center transition-all active:scale-95"
-            >
-              {processing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Search className="w-5 h-5 mr-2" />} 
-              Analyze & Quote
-            </button>
           </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-500">
+            <span className="font-bold text-slate-400 uppercase tracking-widest">Confidence Thresholds</span>
+            <label className="flex items-center gap-1.5">
+              Auto-accept ≥
+              <input type="number" min={0} max={100} className="w-16 px-2 py-1 border border-slate-200 rounded-lg bg-slate-50/30 outline-none focus:ring-2 focus:ring-indigo-500" value={Math.round(settings.thresholds.matched * 100)} onChange={e => updateThreshold('matched', e.target.value)} />%
+            </label>
+            <label className="flex items-center gap-1.5">
+              Review ≥
+              <input type="number" min={0} max={100} className="w-16 px-2 py-1 border border-slate-200 rounded-lg bg-slate-50/30 outline-none focus:ring-2 focus:ring-indigo-500" value={Math.round(settings.thresholds.review * 100)} onChange={e => updateThreshold('review', e.target.value)} />%
+            </label>
+            <label className="flex items-center gap-1.5" title="Rate cards picked out locally for each line; only these are sent to the matching engine">
+              Shortlist
+              <input type="number" min={1} max={MAX_SHORTLIST_SIZE} className="w-16 px-2 py-1 border border-slate-200 rounded-lg bg-slate-50/30 outline-none focus:ring-2 focus:ring-indigo-500" value={settings.shortlistSize} onChange={e => updateShortlistSize(e.target.value)} />
+              cards per line
+            </label>
+          </div>
+
+          {inputMode === 'text' && (
+            <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+              <div className="flex items-center text-xs text-slate-400">
+                <Sparkles className="w-4 h-4 mr-2 text-indigo-400" />
+                Upload includes estimated rates? AI will calculate the variance automatically.
+              </div>
+              <button 
+                disabled={processing || !inputText.trim() || !details.name.trim() || scopedRateCount === 0} 
+                onClick={handleProcess} 
+                className="w-full sm:w-auto px-10 py-4 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 disabled:opacity-50 flex items-center justify-center transition-all active:scale-95"
+              >
+                {processing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Search className="w-5 h-5 mr-2" />} 
+                {extraction && extraction.total > 1 ? `Reading part ${Math.min(extraction.done + 1, extraction.total)} of ${extraction.total}` : 'Analyze & Quote'}
+              </button>
+            </div>
+          )}
+          {aiError && (
+            <div className="mt-4 flex items-start gap-3 px-4 py-3 bg-red-50 border border-red-200 rounded-2xl text-xs text-red-700 font-medium">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <p className="flex-1">{aiError}</p>
+              <button onClick={() => setAiError(null)} title="Dismiss" className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+            </div>
+          )}
           {sorData.length === 0 && (
             <p className="text-center mt-4 text-xs text-red-400 font-medium">Please add rates to your database first!</p>
           )}
@@ -178,44 +479,159 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
       ) : (
         <div className="space-y-6 animate-in fade-in duration-500">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 px-2">
-            <div>
-              <h2 className="text-2xl font-black text-slate-800 tracking-tight">Quotation Builder</h2>
-              <p className="text-slate-500 text-xs font-medium">Comparing list estimates with lowest database benchmarks.</p>
+            <div className="flex items-center gap-3">
+              <button onClick={() => { setSkippedRows(0); setUncapturedLines([]); setAiError(null); onClose(); }} title="Back to saved tenders" className="px-3 py-2 bg-white border border-slate-200 text-slate-400 rounded-xl hover:text-indigo-600 transition-all">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <div>
+                <h2 className="text-2xl font-black text-slate-800 tracking-tight">{tender.name}</h2>
+                <p className="text-slate-500 text-xs font-medium">
+                  {[tender.client, tender.referenceNumber && `Ref: ${tender.referenceNumber}`, tender.date, tender.asOfDate && `Rates as of ${tender.asOfDate}`, scopeSummary(tender.matchScope)].filter(Boolean).join(' · ') || 'Comparing list estimates with lowest database benchmarks.'}
+                </p>
+              </div>
             </div>
             <div className="flex gap-2">
-              <button onClick={() => setItems([])} className="px-3 py-2 bg-white border border-slate-200 text-slate-400 rounded-xl hover:text-red-500 transition-all">
-                <Trash2 className="w-5 h-5" />
+              <button onClick={() => setAdjustingEscalation(!adjustingEscalation)} title="Bring older rate cards up to the tender date" className={`flex items-center px-4 py-2.5 border rounded-xl text-sm font-bold transition-all ${adjustingEscalation ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`}>
+                <CalendarClock className="w-4 h-4 mr-2" /> Escalation
+              </button>
+              <button onClick={() => setAdjustingPricing(!adjustingPricing)} title="Overheads, profit, cess and GST" className={`flex items-center px-4 py-2.5 border rounded-xl text-sm font-bold transition-all ${adjustingPricing ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`}>
+                <Percent className="w-4 h-4 mr-2" /> Pricing
               </button>
-              <button onClick={handleExportExcel} className="flex-1 sm:flex-none flex items-center px-6 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-emerald-700 transition-all">
-                <FileSpreadsheet className="w-4 h-4 mr-2" /> Export to Excel
+              <button onClick={() => setQuoting(true)} disabled={tender.total === 0} className="flex-1 sm:flex-none flex items-center px-6 py-2.5 bg-indigo-600 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-indigo-700 disabled:opacity-50 transition-all">
+                <FileText className="w-4 h-4 mr-2" /> Generate Quotation
+              </button>
+              <button onClick={handleExportExcel} disabled={exporting} className="flex-1 sm:flex-none flex items-center px-6 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-emerald-700 disabled:opacity-50 transition-all">
+                {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileSpreadsheet className="w-4 h-4 mr-2" />} Export to Excel
               </button>
             </div>
           </div>
 
+          {adjustingEscalation && <EscalationPanel escalation={settings.escalation} tenderYear={getTenderYear(tender.date)} onChange={handleEscalationChange} />}
+          {adjustingPricing && <PricingPanel pricing={tender.pricing} onChange={handlePricingChange} />}
+
+          {skippedRows > 0 && (
+            <div className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-xs text-amber-700 font-medium">
+              {skippedRows} line{skippedRows === 1 ? '' : 's'} of the imported tender had no item name or quantity and were skipped.
+            </div>
+          )}
+
+          {uncapturedLines.length > 0 && (
+            <details className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-xs text-amber-700 font-medium no-print">
+              <summary className="cursor-pointer">
+                {uncapturedLines.length} line{uncapturedLines.length === 1 ? '' : 's'} of the pasted text did not end up in any item. Check that none of them is a missed item.
+              </summary>
+              <ul className="mt-2 space-y-1 font-mono text-[11px] text-amber-800 max-h-48 overflow-y-auto">
+                {uncapturedLines.map((line, i) => <li key={i} className="truncate" title={line}>{line}</li>)}
+              </ul>
+            </details>
+          )}
+
+          {aiError && (
+            <div className="flex items-start gap-3 px-4 py-3 bg-red-50 border border-red-200 rounded-2xl text-xs text-red-700 font-medium no-print">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <p className="flex-1">{aiError}</p>
+              <button onClick={() => setAiError(null)} title="Dismiss" className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+            </div>
+          )}
+
+          {progress ? (
+            <div className="px-5 py-4 bg-white border border-slate-200 rounded-2xl shadow-sm space-y-3 no-print">
+              <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center text-sm font-bold text-slate-600">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin text-indigo-500" />
+                  {progress.stopping ? 'Stopping once the lines already sent come back...' : `Matching lines... ${progress.done} of ${progress.total}`}
+                </span>
+                {!progress.stopping && (
+                  <button onClick={handleStopMatching} className="flex items-center px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:text-red-600 transition-all">
+                    <Square className="w-3 h-3 mr-1.5" /> Stop
+                  </button>
+                )}
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 rounded-full transition-all duration-300" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+            </div>
+          ) : pendingCount > 0 && (
+            <div className="flex items-center justify-between gap-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-xs text-amber-700 font-medium no-print">
+              <span>{pendingCount} line{pendingCount === 1 ? ' has' : 's have'} not been matched yet.</span>
+              <button onClick={() => runMatching(tender, items.filter(i => i.status === 'pending' && !rematching.includes(i.id)))} className="flex items-center px-4 py-2 bg-amber-500 text-white rounded-xl font-bold hover:bg-amber-600 transition-all">
+                <Play className="w-3 h-3 mr-1.5" /> Resume Matching
+              </button>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 gap-4">
-            {items.map((item) => {
-              const diff = calculateDiff(item.estimatedRate, item.matchedRate?.rate);
+            {items.map((item, index) => {
+              const quotedRate = getQuotedRate(item);
+              const diff = calculateDiff(item.estimatedRate, quotedRate);
+              const billedQty = getBillableQuantity(item);
               return (
-                <div key={item.id} className={`bg-white rounded-2xl border p-4 sm:p-6 shadow-sm transition-all ${item.status === 'review' ? 'border-amber-200 bg-amber-50/10' : item.status === 'no-match' ? 'border-slate-100 opacity-80' : 'border-slate-200'}`}>
+                <div key={item.id} className={`bg-white rounded-2xl border p-4 sm:p-6 shadow-sm transition-all ${item.status === 'review' ? 'border-amber-200 bg-amber-50/10' : item.status === 'unit-mismatch' ? 'border-red-200 bg-red-50/10' : item.status === 'no-match' ? 'border-slate-100 opacity-80' : 'border-slate-200'}`}>
                   <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-6">
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center flex-wrap gap-2">
                         <h4 className="font-bold text-slate-800 text-base sm:text-lg">{item.name}</h4>
-                        <span className="text-[10px] font-black bg-slate-900 px-2 py-0.5 rounded text-white uppercase tracking-tighter">Qty: {item.quantity}</span>
+                        <span className="text-[10px] font-black bg-slate-900 px-2 py-0.5 rounded text-white uppercase tracking-tighter">Qty: {item.quantity} {item.unit}</span>
+                        <select
+                          title="GST slab"
+                          className="text-[10px] font-bold bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-slate-500 outline-none focus:ring-2 focus:ring-indigo-500"
+                          value={getLineSlab(item, tender.pricing).id}
+                          onChange={e => updateItem(item.id, i => ({ ...i, gstSlabId: e.target.value }))}
+                        >
+                          {tender.pricing.gstSlabs.map(slab => <option key={slab.id} value={slab.id}>GST {slab.percent}% · {slab.label}</option>)}
+                        </select>
                         
                         {item.status === 'review' && (
                           <span className="text-[10px] font-bold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full border border-amber-200 flex items-center">
                             <AlertCircle className="w-3 h-3 mr-1" /> Verify Similarity
                           </span>
                         )}
+                        {item.status === 'unit-mismatch' && (
+                          <span className="text-[10px] font-bold bg-red-100 text-red-700 px-2 py-0.5 rounded-full border border-red-200 flex items-center">
+                            <AlertCircle className="w-3 h-3 mr-1" /> Unit Mismatch: {item.unit} vs {item.matchedRate?.unit}
+                          </span>
+                        )}
+                        {item.status === 'manual' && (
+                          <span className="text-[10px] font-bold bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full border border-indigo-200 flex items-center">
+                            <PenLine className="w-3 h-3 mr-1" /> Rate Entered Manually
+                          </span>
+                        )}
+                        {rematching.includes(item.id) ? (
+                          <span className="text-[10px] font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full border border-slate-200 flex items-center">
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" /> Matching...
+                          </span>
+                        ) : item.status === 'pending' && (
+                          <span className="text-[10px] font-bold bg-slate-50 text-slate-400 px-2 py-0.5 rounded-full border border-slate-200 flex items-center">
+                            <Clock className="w-3 h-3 mr-1" /> {progress ? 'Queued' : 'Not Matched'}
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-slate-500 italic leading-relaxed line-clamp-2">Requested: {item.requestedScope}</p>
                       
                       {item.status !== 'no-match' && item.matchedRate && (
                         <div className="mt-2 p-3 bg-slate-50 rounded-xl border border-slate-100">
-                          <div className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1">Quoted Benchmark (Lowest):</div>
+                          <div className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1">Quoted Benchmark:</div>
                           <div className="font-semibold text-slate-700 text-sm">{item.matchedRate.name}</div>
                           <p className="text-[11px] text-slate-400 mt-0.5 truncate">Source: {item.matchedRate.source}</p>
+                          {item.escalationBasis && (
+                            <p className="text-[11px] text-indigo-500 mt-1 font-semibold">Escalated: {item.escalationBasis}</p>
+                          )}
+                          {item.status !== 'unit-mismatch' && item.unitFactor !== undefined && item.unitFactor !== 1 && (
+                            <p className="text-[11px] text-indigo-500 mt-1 font-semibold">
+                              {formatQuantity(item.quantity)} {item.unit} = {formatQuantity(billedQty)} {item.matchedRate.unit}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {(item.confidence !== undefined || item.matchReason) && (
+                        <div className="flex items-start gap-2 text-[11px] text-slate-500">
+                          {item.confidence !== undefined && (
+                            <span className={`shrink-0 font-bold px-2 py-0.5 rounded-full ${confidenceBadgeClass(item.confidence)}`}>
+                              {Math.round(item.confidence * 100)}% confidence
+                            </span>
+                          )}
+                          {item.matchReason && <span className="italic leading-relaxed">{item.matchReason}</span>}
                         </div>
                       )}
                     </div>
@@ -228,7 +644,12 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                         </div>
                         <div>
                           <div className="text-[10px] font-bold text-indigo-600 uppercase tracking-widest">Quoted Rate</div>
-                          <div className="text-lg font-black text-slate-900">₹{item.matchedRate?.rate?.toLocaleString() || 'N/A'}</div>
+                          <div className="text-lg font-black text-slate-900">₹{quotedRate ? quotedRate.toLocaleString(undefined, { maximumFractionDigits: 2 }) : 'N/A'}{getQuotedUnit(item) && <span className="text-[10px] font-bold text-slate-400"> /{getQuotedUnit(item)}</span>}</div>
+                          {item.escalationFactor !== undefined && item.matchedRate && (
+                            <div className="text-[10px] font-bold text-indigo-500" title={item.escalationBasis}>
+                              SOR ₹{item.matchedRate.rate.toLocaleString()} × {item.escalationFactor.toFixed(3)}
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -242,7 +663,7 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                       <div className="text-right border-t border-slate-100 pt-2 w-full">
                         <div className="text-[10px] font-bold uppercase text-slate-400 tracking-widest mb-1">Total Quoted</div>
                         <div className="text-2xl font-black text-indigo-600 tracking-tighter">
-                          ₹{(item.quantity * (item.matchedRate?.rate || 0)).toLocaleString()}
+                          ₹{getLineAmount(item).toLocaleString()}
                         </div>
                       </div>
                       
@@ -260,6 +681,26 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                             <CheckCircle className="w-4 h-4 mr-1.5" /> Confirmed
                           </div>
                         )}
+                        <button onClick={() => setItems(prev => moveTenderLine(prev, item.id, -1))} disabled={index === 0} title="Move up" className="p-2 text-slate-300 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-300 transition-colors">
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setItems(prev => moveTenderLine(prev, item.id, 1))} disabled={index === items.length - 1} title="Move down" className="p-2 text-slate-300 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-300 transition-colors">
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button 
+                          onClick={() => { setEditingLine(editingLine === item.id ? null : item.id); setPickingItem(null); setConfirmingItem(null); }} 
+                          title="Edit line"
+                          className="p-2 text-slate-300 hover:text-indigo-600 transition-colors"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button 
+                          onClick={() => { setPickingItem(pickingItem === item.id ? null : item.id); setEditingLine(null); }} 
+                          title="Change rate"
+                          className="p-2 text-slate-300 hover:text-indigo-600 transition-colors"
+                        >
+                          <ListChecks className="w-4 h-4" />
+                        </button>
                         <button 
                           onClick={() => setItems(prev => prev.filter(p => p.id !== item.id))} 
                           className="p-2 text-slate-300 hover:text-red-500 transition-colors"
@@ -270,6 +711,20 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                     </div>
                   </div>
 
+                  {editingLine === item.id && (
+                    <TenderLineEditor item={item} onSave={line => handleSaveLine(item.id, line)} onCancel={() => setEditingLine(null)} />
+                  )}
+
+                  {pickingItem === item.id && (
+                    <CandidatePicker
+                      item={item}
+                      sorData={tenderRates}
+                      onPick={rate => handlePickRate(item.id, rate)}
+                      onManualRate={rate => handleManualRate(item.id, rate)}
+                      onClose={() => setPickingItem(null)}
+                    />
+                  )}
+
                   {confirmingItem === item.id && (
                     <div className="mt-6 pt-6 border-t border-amber-100 animate-in slide-in-from-top-4 duration-300">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -293,7 +748,7 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                         <div className="flex gap-2">
                           <button onClick={() => setConfirmingItem(null)} className="px-5 py-2 text-xs font-bold text-slate-400 hover:bg-slate-50 rounded-xl transition-all">Cancel</button>
                           <button 
-                            onClick={() => { setItems(prev => prev.map(i => i.id === item.id ? {...i, status: 'matched'} : i)); setConfirmingItem(null); }} 
+                            onClick={() => { handleAcceptMatch(item); setConfirmingItem(null); }} 
                             className="px-6 py-2 bg-slate-900 text-white rounded-xl font-bold text-xs shadow-xl hover:bg-black transition-all"
                           >
                             Accept & Quote
@@ -305,23 +760,55 @@ const TenderProcessor: React.FC<TenderProcessorProps> = ({ sorData }) => {
                 </div>
               );
             })}
+
+            {addingLine ? (
+              <div className="bg-white rounded-2xl border border-indigo-200 p-4 sm:p-6 shadow-sm">
+                <h4 className="font-bold text-slate-800">New Line</h4>
+                <TenderLineEditor onSave={handleAddLine} onCancel={() => setAddingLine(false)} />
+              </div>
+            ) : (
+              <button onClick={() => setAddingLine(true)} className="py-4 border-2 border-dashed border-slate-200 text-slate-400 rounded-2xl hover:border-indigo-300 hover:text-indigo-600 text-sm font-bold flex items-center justify-center transition-all">
+                <Plus className="w-4 h-4 mr-1" /> Add Line
+              </button>
+            )}
           </div>
           
           <div className="mt-10 p-8 bg-slate-900 rounded-[3rem] text-white flex flex-col sm:flex-row items-center justify-between shadow-2xl relative overflow-hidden">
              <div className="absolute top-0 right-0 w-64 h-64 bg-indigo-500/10 rounded-full -mr-32 -mt-32 blur-[100px]"></div>
              <div className="relative z-10 text-center sm:text-left">
                <h3 className="text-2xl font-bold">Quotation Summary</h3>
-               <p className="text-slate-400 text-sm mt-1">Sum of all database matched benchmark rates.</p>
+               <div className="mt-3 space-y-1 text-sm text-slate-400 tabular-nums min-w-[260px]">
+                 {summaryRows.map(([label, amount]) => (
+                   <div key={label} className="flex justify-between gap-6">
+                     <span>{label}</span>
+                     <span className="text-slate-300">₹{amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                   </div>
+                 ))}
+               </div>
              </div>
              <div className="mt-6 sm:mt-0 relative z-10 text-right">
                <div className="text-4xl sm:text-6xl font-black tabular-nums tracking-tighter text-indigo-400">
-                 ₹{items.reduce((sum, item) => sum + (item.quantity * (item.matchedRate?.rate || 0)), 0).toLocaleString()}
+                 ₹{tender.total.toLocaleString()}
                </div>
                <div className="text-[10px] font-bold uppercase text-slate-500 mt-2 tracking-widest">
                  {items.filter(i => i.status === 'matched').length} Matches / {items.length} Total Items
                </div>
+               {items.some(i => i.status === 'unit-mismatch') && (
+                 <div className="text-[10px] font-bold uppercase text-red-400 mt-1 tracking-widest">
+                   {items.filter(i => i.status === 'unit-mismatch').length} Excluded for Unit Mismatch
+                 </div>
+               )}
              </div>
           </div>
+
+          {quoting && (
+            <QuotationDialog
+              tender={tender}
+              profile={settings.quotation}
+              onProfileChange={quotation => onSettingsChange({ ...settings, quotation })}
+              onClose={() => setQuoting(false)}
+            />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,71 @@
+export type AiErrorKind = 'api-key' | 'rate-limit' | 'network' | 'malformed-response' | 'service';
+
+const MESSAGES: Record<AiErrorKind, string> = {
+  'api-key': 'The Gemini API key is missing or was refused. Enter your key next to Matching Engine in the Tender Builder, or switch matching to Offline Similarity.',
+  'rate-limit': 'Gemini is rate limiting requests or the quota is used up. Wait a minute and try again.',
+  network: 'Gemini could not be reached. Check the internet connection and try again.',
+  'malformed-response': 'Gemini answered in an unexpected format. Try again, or paste a shorter piece of text.',
+  service: 'Gemini could not handle the request.',
+};
+
+/**
+ * A failed call to the AI service, classified so the page can say what went wrong and whether
+ * trying again may help. The message is written for the estimator.
+ */
+export class AiError extends Error {
+  constructor(public kind: AiErrorKind, public status?: number, detail?: string) {
+    super(detail ? `${MESSAGES[kind]} (${detail})` : MESSAGES[kind]);
+    this.name = 'AiError';
+  }
+
+  // Worth another attempt: the same request may well succeed a moment later
+  get transient(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'network' || this.kind === 'malformed-response'
+      || (this.kind === 'service' && (this.status ?? 0) >= 500);
+  }
+}
+
+const statusOf = (e: unknown): number | undefined => {
+  const status = (e as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Sorts any error thrown while calling the AI service into an `AiError`.
+ */
+export function toAiError(e: unknown): AiError {
+  if (e instanceof AiError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  const status = statusOf(e);
+  if (status === 429 || /quota|resource.?exhausted/i.test(message)) return new AiError('rate-limit', status);
+  if (status === 401 || status === 403 || /api.?key/i.test(message)) return new AiError('api-key', status);
+  if (status !== undefined) return new AiError('service', status, `HTTP ${status}`);
+  // fetch rejects with a TypeError when the request never got an answer
+  if (e instanceof TypeError || /network|fetch|timed? ?out|abort/i.test(message)) return new AiError('network');
+  return new AiError('service', undefined, message);
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `call`, trying again with exponential backoff while it fails for a transient reason.
+ * Anything else, and the last transient failure, is thrown as an `AiError`.
+ */
+export async function withRetry<T>(call: () => Promise<T>, { attempts = 3, baseDelayMs = 1000 }: RetryOptions = {}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (e) {
+      const error = toAiError(e);
+      if (!error.transient || attempt >= attempts) throw error;
+      // Rate limits need longer to clear than a dropped connection
+      const base = error.kind === 'rate-limit' ? baseDelayMs * 4 : baseDelayMs;
+      await wait(base * 2 ** (attempt - 1) * (1 + Math.random() * 0.25));
+    }
+  }
+}
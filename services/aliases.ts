@@ -0,0 +1,60 @@
+import { MatchAlias, SORItem } from "../types.ts";
+
+export const ALIASES_STORAGE_KEY = 'smart_rate_aliases_v1';
+
+/**
+ * Normalises a tender description for lookup, so case, spacing and stray punctuation don't matter
+ * while mix ratios and sizes such as "1:4:8" or "12.5 mm" survive.
+ */
+export const aliasKey = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/[^a-z0-9:./]+/g, ' ')
+    .split(' ')
+    .map(word => word.replace(/^[:./]+|[:./]+$/g, ''))
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Records that `description` is quoted from the rate card `rateId`, replacing what was learned for it before.
+ */
+export function learnAlias(aliases: MatchAlias[], description: string, rateId: string): MatchAlias[] {
+  const key = aliasKey(description);
+  if (!key) return aliases;
+  const existing = aliases.find(a => a.key === key);
+  const alias: MatchAlias = { id: existing?.id ?? crypto.randomUUID(), key, description: description.trim(), rateId, learnedAt: Date.now() };
+  return existing ? aliases.map(a => a === existing ? alias : a) : [...aliases, alias];
+}
+
+/**
+ * Changes what an alias answers to; if its new description is already learned, that alias gives way.
+ */
+export function updateAlias(aliases: MatchAlias[], id: string, patch: Pick<MatchAlias, 'description' | 'rateId'>): MatchAlias[] {
+  const key = aliasKey(patch.description);
+  if (!key) return aliases;
+  return aliases
+    .filter(a => a.id === id || a.key !== key)
+    .map(a => a.id === id ? { ...a, ...patch, description: patch.description.trim(), key, learnedAt: Date.now() } : a);
+}
+
+/**
+ * The rate card a tender description was confirmed against, if it is among `sorData`.
+ */
+export function findAliasedRate(aliases: MatchAlias[], description: string, sorData: SORItem[]): { alias: MatchAlias; rate: SORItem } | null {
+  const key = aliasKey(description);
+  const alias = aliases.find(a => a.key === key);
+  const rate = alias && sorData.find(item => item.id === alias.rateId);
+  return alias && rate ? { alias, rate } : null;
+}
+
+/**
+ * Keeps the most recently learned alias for each description.
+ */
+export const withoutDuplicateKeys = (aliases: MatchAlias[]): MatchAlias[] => {
+  const latest = new Map<string, MatchAlias>();
+  aliases.forEach(a => {
+    const seen = latest.get(a.key);
+    if (!seen || a.learnedAt > seen.learnedAt) latest.set(a.key, a);
+  });
+  return aliases.filter(a => latest.get(a.key) === a);
+};
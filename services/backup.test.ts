@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { AppSettings, SORItem, Tender } from '../types.ts';
+import { BACKUP_FORMAT, BackupContents, BackupError, countIncoming, parseBackup, restoreBackup } from './backup.ts';
+import { DEFAULT_PRICING } from './pricing.ts';
+import { DEFAULT_ESCALATION } from './escalation.ts';
+import { DEFAULT_BENCHMARK } from './benchmark.ts';
+import { DEFAULT_QUOTATION_PROFILE } from './quotationPdf.ts';
+import { DEFAULT_THRESHOLDS } from './matcher.ts';
+import { EMPTY_SEARCH } from './rateSearch.ts';
+
+const card = (fields: Partial<SORItem> = {}): SORItem =>
+  ({ id: 'brick', name: 'Brick work', unit: 'cum', rate: 6000, scopeOfWork: '', source: 'DSR 2023', timestamp: 1, updatedAt: 1, ...fields });
+
+const tender = (fields: Partial<Tender> = {}): Tender => ({
+  id: 't1', name: 'School block', client: 'PWD', date: '2025-01-01', referenceNumber: '', pricing: DEFAULT_PRICING, total: 0,
+  items: [{ id: 'l1', name: 'Brick work', quantity: 10, unit: 'cum', requestedScope: '', status: 'pending' }],
+  createdAt: 1, updatedAt: 1, ...fields,
+});
+
+const SETTINGS: AppSettings = {
+  matcher: 'local', thresholds: DEFAULT_THRESHOLDS, shortlistSize: 25, quotation: DEFAULT_QUOTATION_PROFILE, pricing: DEFAULT_PRICING,
+  escalation: DEFAULT_ESCALATION, benchmark: DEFAULT_BENCHMARK, savedSearches: [], userName: 'Asha',
+};
+
+const current = (fields: Partial<BackupContents> = {}): BackupContents =>
+  ({ rates: [card()], tenders: [], basicRates: [], aliases: [], settings: SETTINGS, ...fields });
+
+const file = (fields: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: 1, exportedAt: 2, rates: [card()], tenders: [], basicRates: [], aliases: [], ...fields });
+
+const problemsOf = (text: string): string[] => {
+  try {
+    parseBackup(text);
+  } catch (e) {
+    if (e instanceof BackupError) return e.problems;
+    throw e;
+  }
+  return [];
+};
+
+describe('parseBackup', () => {
+  it('reads a complete backup', () => {
+    const backup = parseBackup(file({ tenders: [tender()] }));
+    expect(backup.rates).toEqual([card()]);
+    expect(backup.tenders[0].items).toHaveLength(1);
+  });
+
+  it('rejects what is not a backup', () => {
+    expect(() => parseBackup('not json')).toThrow(BackupError);
+    expect(() => parseBackup(JSON.stringify({ format: 'other' }))).toThrow('not a SmartRate backup');
+    expect(() => parseBackup(file({ version: 99 }))).toThrow('newer version');
+  });
+
+  it('names the nested field a record gets wrong', () => {
+    expect(problemsOf(file({ tenders: [tender({ items: [{ id: 'l1', name: 'Brick', quantity: '10', requestedScope: '', status: 'pending' } as never] })] })))
+      .toEqual(['Tender 1 has no valid "items[0].quantity".']);
+    expect(problemsOf(file({ rates: [card({ versions: [{ rate: 1 } as never] })] })))
+      .toEqual(['Rate card 1 has no valid "versions[0].unit".']);
+    expect(problemsOf(file({ tenders: [tender({ pricing: { ...DEFAULT_PRICING, gstSlabs: [{ id: 'x', label: 'X', percent: '18' } as never] } })] })))
+      .toEqual(['Tender 1 has no valid "pricing.gstSlabs[0].percent".']);
+  });
+
+  it('rejects repeated ids', () => {
+    expect(problemsOf(file({ rates: [card(), card()] }))).toEqual(['Rate card 2 repeats the id "brick".']);
+  });
+
+  it('keeps the settings it can read and drops the rest', () => {
+    const backup = parseBackup(file({ settings: { userName: 7, shortlistSize: 40, benchmark: { ...DEFAULT_BENCHMARK, strategy: 'cheapest' } } }));
+    expect(backup.settings).toEqual({ shortlistSize: 40 });
+  });
+});
+
+describe('restoring', () => {
+  it('takes a card changed in the backup after the local copy, even at the same price', () => {
+    const backup = parseBackup(file({ rates: [card({ name: 'Brick work renamed', updatedAt: 5 })] }));
+    expect(countIncoming(current(), backup).rates).toEqual({ added: 0, updated: 1 });
+    expect(restoreBackup(current(), backup, 'merge').rates.map(r => r.name)).toEqual(['Brick work renamed']);
+  });
+
+  it('keeps a local card changed after the backup', () => {
+    const backup = parseBackup(file({ rates: [card({ name: 'Older name', updatedAt: 0 })] }));
+    expect(restoreBackup(current({ rates: [card({ updatedAt: 9 })] }), backup, 'merge').rates[0].name).toBe('Brick work');
+  });
+
+  it('falls back to the price date for cards saved before changes were tracked', () => {
+    const backup = parseBackup(file({ rates: [card({ rate: 6400, timestamp: 5, updatedAt: undefined })] }));
+    expect(restoreBackup(current(), backup, 'merge').rates[0].rate).toBe(6400);
+  });
+
+  it('combines saved searches on merge and keeps the other local settings', () => {
+    const search = { id: 's', name: 'Bricks', search: { ...EMPTY_SEARCH, query: 'brick' } };
+    const backup = parseBackup(file({ settings: { ...SETTINGS, userName: 'Ravi', savedSearches: [search] } }));
+    const settings = restoreBackup(current(), backup, 'merge').settings!;
+    expect(settings.userName).toBe('Asha');
+    expect(settings.savedSearches).toEqual([search]);
+  });
+
+  it('replaces everything on replace, keeping current settings the file lacks', () => {
+    const backup = parseBackup(file({ rates: [], settings: { userName: 'Ravi', shortlistSize: 'many' } }));
+    const restored = restoreBackup(current(), backup, 'replace');
+    expect(restored.rates).toEqual([]);
+    expect(restored.settings).toEqual({ ...SETTINGS, userName: 'Ravi' });
+  });
+});
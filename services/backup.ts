@@ -0,0 +1,287 @@
+import { AppSettings, BasicRate, MatchAlias, MatcherId, RateChange, SORItem, Tender, TenderItem } from "../types.ts";
+import { ROUNDING_LABELS, UNADJUSTED_PRICING } from "./pricing.ts";
+import { ANALYSIS_CATEGORIES } from "./rateAnalysis.ts";
+import { BENCHMARK_STRATEGY_LABELS } from "./benchmark.ts";
+import { RATE_SORT_LABELS } from "./rateSearch.ts";
+import { downloadBlob } from "./download.ts";
+import { withoutDuplicateKeys } from "./aliases.ts";
+
+export const BACKUP_FORMAT = 'smart-rate-backup';
+// Raise when the file layout changes, and teach `parseBackup` to read the older versions
+export const BACKUP_VERSION = 1;
+
+export interface BackupContents {
+  rates: SORItem[];
+  tenders: Tender[];
+  basicRates: BasicRate[];
+  aliases: MatchAlias[];
+  settings?: AppSettings;
+}
+
+export interface DatabaseBackup extends Omit<BackupContents, 'settings'> {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  // Only the settings that were readable in the file
+  settings?: Partial<AppSettings>;
+}
+
+// Merge keeps both sides, preferring the more recently changed copy of a record; replace takes the file as-is
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function downloadBackup(contents: BackupContents) {
+  const backup: DatabaseBackup = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), ...contents };
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), `SmartRate Backup ${date}.json`);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Where in a value the first thing wrong with it sits, such as ".items[3].quantity"; '' for the value
+// itself, undefined when it is all right
+type Check = (value: unknown) => string | undefined;
+
+const is = (test: (value: unknown) => boolean): Check => value => test(value) ? undefined : '';
+const text = is(value => typeof value === 'string');
+const number = is(isNumber);
+const flag = is(value => typeof value === 'boolean');
+const oneOf = (values: readonly string[]) => is(value => values.includes(value as string));
+const optional = (check: Check): Check => value => value === undefined ? undefined : check(value);
+
+const listOf = (check: Check): Check => value => {
+  if (!Array.isArray(value)) return '';
+  for (let i = 0; i < value.length; i++) {
+    const problem = check(value[i]);
+    if (problem !== undefined) return `[${i}]${problem}`;
+  }
+  return undefined;
+};
+
+const shape = (fields: Record<string, Check>): Check => value => {
+  if (!isRecord(value)) return '';
+  for (const [field, check] of Object.entries(fields)) {
+    const problem = check(value[field]);
+    if (problem !== undefined) return `.${field}${problem}`;
+  }
+  return undefined;
+};
+
+const MATCHERS: MatcherId[] = ['gemini', 'local'];
+const RATE_CHANGES: RateChange[] = ['created', 'edited', 'imported', 'analysis', 'basic-rate'];
+const LINE_STATUSES: TenderItem['status'][] = ['pending', 'matched', 'review', 'no-match', 'unit-mismatch', 'manual'];
+
+const VERSION = shape({
+  rate: number, unit: text, scopeOfWork: text, source: text,
+  name: optional(text), itemCode: optional(text), chapter: optional(text), tags: optional(listOf(text)),
+  validFrom: number, changedBy: text, change: oneOf(RATE_CHANGES),
+});
+
+const ANALYSIS = shape({
+  outputQuantity: number,
+  lines: listOf(shape({ id: text, basicRateId: text, quantity: number })),
+  overheadPercent: number,
+  profitPercent: number,
+});
+
+const RATE_FIELDS = {
+  id: text, name: text, unit: text, rate: number, scopeOfWork: text, source: text, timestamp: number,
+  itemCode: optional(text), chapter: optional(text), subCategory: optional(text), tags: optional(listOf(text)),
+  updatedAt: optional(number), analysis: optional(ANALYSIS), versions: optional(listOf(VERSION)), benchmarkGroupId: optional(text),
+};
+
+const PRICING = shape({
+  overheadPercent: number,
+  profitPercent: number,
+  labourCessPercent: number,
+  gstSlabs: listOf(shape({ id: text, label: text, percent: number })),
+  defaultSlabId: text,
+  rounding: oneOf(Object.keys(ROUNDING_LABELS)),
+});
+
+const TENDER_ITEM = shape({
+  id: text, name: text, quantity: number, unit: optional(text), requestedScope: text, estimatedRate: optional(number),
+  matchedRate: optional(shape(RATE_FIELDS)), unitFactor: optional(number), confidence: optional(number), matchReason: optional(text),
+  candidates: optional(listOf(shape({ rate: shape(RATE_FIELDS), score: number }))),
+  manualRate: optional(number), escalationFactor: optional(number), escalationBasis: optional(text), gstSlabId: optional(text),
+  status: oneOf(LINE_STATUSES),
+});
+
+// What each kind of record must look like, field by field
+const RECORDS: Record<'rates' | 'tenders' | 'basicRates' | 'aliases', Record<string, Check>> = {
+  rates: RATE_FIELDS,
+  tenders: {
+    id: text, name: text, client: text, date: text, referenceNumber: text, asOfDate: optional(text),
+    matchScope: optional(shape({ sources: listOf(text), chapters: listOf(text) })),
+    items: listOf(TENDER_ITEM), pricing: optional(PRICING), total: number, createdAt: number, updatedAt: number,
+  },
+  basicRates: { id: text, name: text, unit: text, rate: number, category: text, updatedAt: number },
+  aliases: { id: text, key: text, description: text, rateId: text, learnedAt: number },
+};
+
+const SEARCH = shape({
+  query: text, units: listOf(text), sources: listOf(text), minRate: optional(number), maxRate: optional(number),
+  addedFrom: optional(text), addedTo: optional(text), sort: oneOf(Object.keys(RATE_SORT_LABELS)),
+});
+
+const SETTINGS: Record<keyof AppSettings, Check> = {
+  matcher: oneOf(MATCHERS),
+  thresholds: shape({ matched: number, review: number }),
+  shortlistSize: number,
+  quotation: shape({
+    companyName: text, address: text, contact: text, gstin: text, logoDataUrl: optional(text), validityDays: number, terms: text,
+  }),
+  pricing: PRICING,
+  escalation: shape({
+    enabled: flag,
+    annualPercent: number,
+    indices: listOf(shape({ id: text, source: text, year: number, value: number })),
+  }),
+  benchmark: shape({
+    strategy: oneOf(Object.keys(BENCHMARK_STRATEGY_LABELS)),
+    preferredSources: listOf(text),
+    trimPercent: number,
+    lowOutlierPercent: number,
+  }),
+  savedSearches: listOf(shape({ id: text, name: text, search: SEARCH })),
+  userName: text,
+};
+
+// A setting the file gets wrong is left out, so the one already in use stays
+function readableSettings(settings: Record<string, unknown>): Partial<AppSettings> {
+  return Object.fromEntries(Object.entries(SETTINGS).flatMap(([field, check]) =>
+    settings[field] !== undefined && check(settings[field]) === undefined ? [[field, settings[field]]] : []));
+}
+
+const LABELS = { rates: 'Rate card', tenders: 'Tender', basicRates: 'Basic rate', aliases: 'Alias' };
+
+// Enough to show what is wrong without burying the user in a list the length of the file
+const MAX_PROBLEMS = 8;
+
+function checkRecords(list: unknown, key: keyof typeof RECORDS, problems: string[]) {
+  if (!Array.isArray(list)) {
+    problems.push(`"${key}" must be a list.`);
+    return;
+  }
+  const seen = new Set<unknown>();
+  list.forEach((record, i) => {
+    const at = `${LABELS[key]} ${i + 1}`;
+    if (!isRecord(record)) {
+      problems.push(`${at} is not an object.`);
+      return;
+    }
+    Object.entries(RECORDS[key]).forEach(([field, check]) => {
+      const problem = check(record[field]);
+      if (problem !== undefined) problems.push(`${at} has no valid "${field}${problem}".`);
+    });
+    if (key === 'basicRates' && !(String(record.category) in ANALYSIS_CATEGORIES)) problems.push(`${at} has an unknown category "${record.category}".`);
+    if (seen.has(record.id)) problems.push(`${at} repeats the id "${record.id}".`);
+    seen.add(record.id);
+  });
+}
+
+/**
+ * Reads a backup file, rejecting anything that is not a complete backup this version understands.
+ * Settings are taken one by one; any the file gets wrong are dropped.
+ */
+export function parseBackup(text: string): DatabaseBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new BackupError('This file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) throw new BackupError('This file is not a SmartRate backup.');
+  if (!isNumber(data.version) || data.version < 1) throw new BackupError('This backup has no valid version number.');
+  if (data.version > BACKUP_VERSION) throw new BackupError(`This backup was made by a newer version of SmartRate (format ${data.version}). Update the app to restore it.`);
+
+  const problems: string[] = [];
+  if (!isNumber(data.exportedAt)) problems.push('"exportedAt" must be a timestamp.');
+  checkRecords(data.rates, 'rates', problems);
+  checkRecords(data.tenders ?? [], 'tenders', problems);
+  checkRecords(data.basicRates ?? [], 'basicRates', problems);
+  checkRecords(data.aliases ?? [], 'aliases', problems);
+  if (data.settings !== undefined && !isRecord(data.settings)) problems.push('"settings" must be an object.');
+  if (problems.length) {
+    const more = problems.length > MAX_PROBLEMS ? [`...and ${problems.length - MAX_PROBLEMS} more.`] : [];
+    throw new BackupError('This backup is damaged or incomplete and was not restored.', [...problems.slice(0, MAX_PROBLEMS), ...more]);
+  }
+
+  const backup = data as unknown as DatabaseBackup;
+  return {
+    ...backup,
+    tenders: (backup.tenders ?? []).map(t => ({ ...t, pricing: t.pricing ?? UNADJUSTED_PRICING })),
+    basicRates: backup.basicRates ?? [],
+    aliases: backup.aliases ?? [],
+    settings: isRecord(data.settings) ? readableSettings(data.settings) : undefined,
+  };
+}
+
+// Cards saved before `updatedAt` was kept fall back to when their price was set
+const rateChangedAt = (rate: SORItem) => rate.updatedAt ?? rate.timestamp;
+
+// Records only in `incoming` are appended; shared ids keep whichever copy changed last
+function mergeById<T extends { id: string }>(current: T[], incoming: T[], changedAt: (record: T) => number): T[] {
+  const byId = new Map(incoming.map(record => [record.id, record]));
+  const known = new Set(current.map(record => record.id));
+  return [
+    ...current.map(record => {
+      const other = byId.get(record.id);
+      return other && changedAt(other) > changedAt(record) ? other : record;
+    }),
+    ...incoming.filter(record => !known.has(record.id)),
+  ];
+}
+
+/**
+ * Records in the backup that are new here, or newer than the copy here.
+ */
+export function countIncoming(current: BackupContents, backup: DatabaseBackup) {
+  const count = <T extends { id: string }>(mine: T[], theirs: T[], changedAt: (record: T) => number) => {
+    const byId = new Map(mine.map(record => [record.id, record]));
+    return {
+      added: theirs.filter(record => !byId.has(record.id)).length,
+      updated: theirs.filter(record => byId.has(record.id) && changedAt(record) > changedAt(byId.get(record.id)!)).length,
+    };
+  };
+  return {
+    rates: count(current.rates, backup.rates, rateChangedAt),
+    tenders: count(current.tenders, backup.tenders, t => t.updatedAt),
+    basicRates: count(current.basicRates, backup.basicRates, b => b.updatedAt),
+  };
+}
+
+/**
+ * The database after restoring a backup. Merging keeps local settings apart from saved searches,
+ * which are combined; replacing takes the backup's settings over the current defaults.
+ */
+export function restoreBackup(current: BackupContents, backup: DatabaseBackup, mode: RestoreMode): BackupContents {
+  if (mode === 'replace') {
+    return {
+      rates: backup.rates,
+      tenders: backup.tenders,
+      basicRates: backup.basicRates,
+      aliases: backup.aliases,
+      settings: current.settings && backup.settings ? { ...current.settings, ...backup.settings } : current.settings,
+    };
+  }
+  return {
+    rates: mergeById(current.rates, backup.rates, rateChangedAt),
+    tenders: mergeById(current.tenders, backup.tenders, t => t.updatedAt),
+    basicRates: mergeById(current.basicRates, backup.basicRates, b => b.updatedAt),
+    // The same description may have been learned separately on both sides
+    aliases: withoutDuplicateKeys(mergeById(current.aliases, backup.aliases, a => a.learnedAt)),
+    settings: current.settings && backup.settings?.savedSearches
+      ? { ...current.settings, savedSearches: mergeById(current.settings.savedSearches, backup.settings.savedSearches, () => 0) }
+      : current.settings,
+  };
+}
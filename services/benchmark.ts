@@ -0,0 +1,167 @@
+import { BenchmarkSettings, BenchmarkStrategy, SORItem } from "../types.ts";
+import { compareUnits } from "./units.ts";
+
+export const DEFAULT_BENCHMARK: BenchmarkSettings = {
+  strategy: 'lowest',
+  preferredSources: [],
+  trimPercent: 10,
+  lowOutlierPercent: 40,
+};
+
+export const BENCHMARK_STRATEGY_LABELS: Record<BenchmarkStrategy, string> = {
+  lowest: 'Lowest',
+  median: 'Median',
+  latest: 'Latest',
+  'preferred-source': 'Preferred Source',
+  'trimmed-mean': 'Trimmed Mean',
+};
+
+// Too few rates to say what is normal, so nothing is ruled out as an outlier
+const MIN_RATES_FOR_OUTLIERS = 3;
+
+export interface Benchmark {
+  // Card the benchmark is quoted from; for a median or mean, the one priced nearest to it
+  card: SORItem;
+  // Benchmark rate per `card.unit`
+  rate: number;
+  // Cards in the group whose unit converts to the group's, outliers included
+  members: SORItem[];
+  outliers: SORItem[];
+  basis: string;
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const benchmarkGroupKey = (item: Pick<SORItem, 'name' | 'benchmarkGroupId'>): string =>
+  item.benchmarkGroupId ?? `name:${normaliseName(item.name)}`;
+
+/**
+ * The rate cards treated as the same item as `item`: its linked group, or cards with an identical name.
+ */
+export function benchmarkGroupOf(item: SORItem, items: SORItem[]): SORItem[] {
+  const key = benchmarkGroupKey(item);
+  const group = items.filter(other => benchmarkGroupKey(other) === key);
+  return group.some(other => other.id === item.id) ? group : [item, ...group];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function trimmedMean(values: number[], trimPercent: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.min(Math.floor(sorted.length * trimPercent / 100), Math.floor((sorted.length - 1) / 2));
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * Chooses the benchmark rate for a group of equivalent rate cards. Rates are compared per the first
+ * card's unit, and suspiciously low rates are set aside before the strategy is applied.
+ */
+export function selectBenchmark(group: SORItem[], settings: BenchmarkSettings): Benchmark | null {
+  if (group.length === 0) return null;
+  const anchor = group[0];
+  const priced = group.flatMap(card => {
+    const units = compareUnits(anchor.unit, card.unit);
+    return units.kind === 'incompatible' ? [] : [{ card, perAnchor: card.rate * units.factor, factor: units.factor }];
+  });
+  const members = priced.map(p => p.card);
+
+  const groupMedian = median(priced.map(p => p.perAnchor));
+  const floor = priced.length >= MIN_RATES_FOR_OUTLIERS && settings.lowOutlierPercent > 0
+    ? groupMedian * (1 - settings.lowOutlierPercent / 100)
+    : -Infinity;
+  const outlierSet = new Set(priced.filter(p => p.perAnchor < floor).map(p => p.card));
+  const considered = priced.filter(p => !outlierSet.has(p.card));
+  const outliers = members.filter(card => outlierSet.has(card));
+
+  const lowest = () => considered.reduce((best, p) => p.perAnchor < best.perAnchor ? p : best);
+  let chosen = lowest();
+  let value: number | null = null;
+  let description: string;
+
+  switch (settings.strategy) {
+    case 'median':
+      value = median(considered.map(p => p.perAnchor));
+      description = `Median of ${plural(considered.length, 'rate')}`;
+      break;
+    case 'trimmed-mean':
+      value = trimmedMean(considered.map(p => p.perAnchor), settings.trimPercent);
+      description = `${settings.trimPercent}% trimmed mean of ${plural(considered.length, 'rate')}`;
+      break;
+    case 'latest':
+      chosen = considered.reduce((best, p) => p.card.timestamp > best.card.timestamp ? p : best);
+      description = `Latest of ${plural(considered.length, 'rate')}`;
+      break;
+    case 'preferred-source': {
+      const preferred = settings.preferredSources
+        .map(source => source.trim().toLowerCase())
+        .filter(Boolean)
+        .map(source => considered.filter(p => p.card.source.toLowerCase().includes(source)))
+        .find(matches => matches.length > 0);
+      chosen = preferred ? preferred.reduce((best, p) => p.perAnchor < best.perAnchor ? p : best) : chosen;
+      description = preferred ? `Preferred source ${chosen.card.source}` : `Lowest of ${plural(considered.length, 'rate')}, no preferred source`;
+      break;
+    }
+    default:
+      description = `Lowest of ${plural(considered.length, 'rate')}`;
+  }
+
+  if (value !== null) {
+    const target = value;
+    chosen = considered.reduce((best, p) => Math.abs(p.perAnchor - target) < Math.abs(best.perAnchor - target) ? p : best);
+  }
+  const rate = value === null ? chosen.card.rate : Math.round((value / chosen.factor) * 100) / 100;
+  const basis = outliers.length ? `${description}; ${plural(outliers.length, 'low outlier')} ignored.` : `${description}.`;
+
+  return { card: chosen.card, rate, members, outliers, basis };
+}
+
+export type BenchmarkRole = 'benchmark' | 'outlier';
+
+/**
+ * How each rate card in the database stands within its group. Cards with no equivalents have no role.
+ */
+export function benchmarkRoles(items: SORItem[], settings: BenchmarkSettings): Map<string, BenchmarkRole> {
+  const groups = new Map<string, SORItem[]>();
+  items.forEach(item => {
+    const key = benchmarkGroupKey(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  });
+
+  const roles = new Map<string, BenchmarkRole>();
+  groups.forEach(group => {
+    const benchmark = group.length > 1 ? selectBenchmark(group, settings) : null;
+    if (!benchmark || benchmark.members.length < 2) return;
+    roles.set(benchmark.card.id, 'benchmark');
+    benchmark.outliers.forEach(card => roles.set(card.id, 'outlier'));
+  });
+  return roles;
+}
+
+/**
+ * Puts `otherId` and everything grouped with it into the same benchmark group as `anchorId`.
+ */
+export function linkRates(items: SORItem[], anchorId: string, otherId: string): SORItem[] {
+  const anchor = items.find(i => i.id === anchorId);
+  const other = items.find(i => i.id === otherId);
+  if (!anchor || !other) return items;
+  const keys = new Set([benchmarkGroupKey(anchor), benchmarkGroupKey(other)]);
+  const groupId = anchor.benchmarkGroupId ?? other.benchmarkGroupId ?? crypto.randomUUID();
+  const now = Date.now();
+  return items.map(item => keys.has(benchmarkGroupKey(item)) && item.benchmarkGroupId !== groupId
+    ? { ...item, benchmarkGroupId: groupId, updatedAt: now }
+    : item);
+}
+
+/**
+ * Takes a card out of its linked group; it falls back to grouping with identically named cards.
+ */
+export const unlinkRate = (items: SORItem[], id: string): SORItem[] =>
+  items.map(item => item.id === id ? { ...item, benchmarkGroupId: undefined, updatedAt: Date.now() } : item);
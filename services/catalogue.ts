@@ -0,0 +1,106 @@
+import { MatchScope, SORItem } from "../types.ts";
+
+export const UNSOURCED = 'Standard Reference';
+export const UNCATEGORISED = 'Uncategorised';
+
+export const sourceLabel = (item: Pick<SORItem, 'source'>) => item.source.trim() || UNSOURCED;
+export const chapterLabel = (item: Pick<SORItem, 'chapter'>) => item.chapter?.trim() || UNCATEGORISED;
+
+// One shared collator; localeCompare with options builds a new one on every call
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Orders SOR item codes the way the book does, so "2.10" follows "2.9" and "2.8.1" follows "2.8".
+ * Items without a code go last.
+ */
+export function compareItemCodes(a?: string, b?: string): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  const pa = a.split(/[^0-9a-z]+/i).filter(Boolean);
+  const pb = b.split(/[^0-9a-z]+/i).filter(Boolean);
+  for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+    const diff = collator.compare(pa[i], pb[i]);
+    if (diff !== 0) return diff;
+  }
+  return pa.length - pb.length;
+}
+
+export const compareRateCards = (a: SORItem, b: SORItem): number =>
+  compareItemCodes(a.itemCode, b.itemCode) || collator.compare(a.name, b.name);
+
+/**
+ * Splits comma-separated tags, dropping blanks and repeats regardless of case.
+ */
+export function parseTags(text: string): string[] {
+  const seen = new Set<string>();
+  return text.split(',').map(t => t.trim()).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export interface ChapterNode {
+  chapter: string;
+  items: SORItem[];
+}
+
+export interface SourceNode {
+  source: string;
+  count: number;
+  chapters: ChapterNode[];
+}
+
+/**
+ * Rate cards arranged source → chapter → item, each level in book order with uncategorised items last.
+ */
+export function buildRateTree(items: SORItem[]): SourceNode[] {
+  const sources = new Map<string, Map<string, SORItem[]>>();
+  items.forEach(item => {
+    const source = sourceLabel(item);
+    const chapter = chapterLabel(item);
+    if (!sources.has(source)) sources.set(source, new Map());
+    const chapters = sources.get(source)!;
+    if (!chapters.has(chapter)) chapters.set(chapter, []);
+    chapters.get(chapter)!.push(item);
+  });
+
+  // Chapters follow the lowest item code they contain, as printed in the schedule
+  const chapterOrder = (node: ChapterNode) => node.chapter === UNCATEGORISED ? undefined : node.items[0].itemCode;
+  return Array.from(sources, ([source, chapters]) => ({
+    source,
+    count: Array.from(chapters.values()).reduce((n, list) => n + list.length, 0),
+    chapters: Array.from(chapters, ([chapter, list]) => ({ chapter, items: [...list].sort(compareRateCards) }))
+      .sort((a, b) => (a.chapter === UNCATEGORISED ? 1 : 0) - (b.chapter === UNCATEGORISED ? 1 : 0)
+        || compareItemCodes(chapterOrder(a), chapterOrder(b))
+        || a.chapter.localeCompare(b.chapter)),
+  })).sort((a, b) => a.source.localeCompare(b.source));
+}
+
+// A node picked in the tree browser; deeper fields narrow the selection
+export interface TreeSelection {
+  source: string;
+  chapter?: string;
+  itemId?: string;
+}
+
+export const inTreeSelection = (item: SORItem, selection: TreeSelection): boolean =>
+  sourceLabel(item) === selection.source
+  && (selection.chapter === undefined || chapterLabel(item) === selection.chapter)
+  && (selection.itemId === undefined || item.id === selection.itemId);
+
+const distinct = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+export const listSources = (items: SORItem[]): string[] => distinct(items.map(sourceLabel));
+
+export const listChapters = (items: SORItem[]): string[] => distinct(items.map(chapterLabel));
+
+/**
+ * The rate cards a tender may be matched against.
+ */
+export function withinMatchScope(items: SORItem[], scope?: MatchScope): SORItem[] {
+  if (!scope || (scope.sources.length === 0 && scope.chapters.length === 0)) return items;
+  return items.filter(item =>
+    (scope.sources.length === 0 || scope.sources.includes(sourceLabel(item)))
+    && (scope.chapters.length === 0 || scope.chapters.includes(chapterLabel(item))));
+}
@@ -0,0 +1,15 @@
+/**
+ * Saves a generated file through a temporary link, the only portable way to trigger a download from a page.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+// Keeps user-entered names (tender titles, references) safe to use as file names
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'Quotation';
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SORItem } from '../types.ts';
+import { RateDraft, findDuplicateGroups, planImport } from './duplicates.ts';
+
+const draft = (name: string, fields: Partial<RateDraft> = {}): RateDraft =>
+  ({ name, unit: 'cum', rate: 100, scopeOfWork: '', source: 'DSR 2023', ...fields });
+
+const card = (id: string, name: string, fields: Partial<SORItem> = {}): SORItem =>
+  ({ ...draft(name), id, timestamp: 0, ...fields });
+
+describe('planImport', () => {
+  const existing = [card('brick', 'Brick work in CM 1:6'), card('plaster', 'Cement plaster 12 mm thick')];
+
+  it('skips an exact duplicate of a card in the database by default', () => {
+    const [row] = planImport([draft('brick work in  cm 1:6')], existing);
+    expect(row.match?.within).toBe('database');
+    expect(row.match?.existing).toBe(existing[0]);
+    expect(row.match?.kind).toBe('exact');
+    expect(row.resolution).toBe('skip');
+  });
+
+  it('keeps a near duplicate alongside until the estimator decides', () => {
+    const [row] = planImport([draft('Brickwork in CM 1:6')], existing);
+    expect(row.match?.kind).toBe('similar');
+    expect(row.resolution).toBe('keep-both');
+  });
+
+  it('treats other figures, units or sources as different items', () => {
+    const rows = planImport([
+      draft('Brick work in CM 1:4'),
+      draft('Brick work in CM 1:6', { unit: 'sqm' }),
+      draft('Brick work in CM 1:6', { source: 'State SOR 2023' }),
+    ], existing);
+    rows.forEach(row => expect(row.match).toBeNull());
+  });
+
+  it('flags a row repeating an earlier row of the same import', () => {
+    const rows = planImport([draft('Waterproofing'), draft('Waterproofing'), draft('Water proofing')], existing);
+    expect(rows[0].match).toBeNull();
+    expect(rows[1].match).toMatchObject({ within: 'import', earlierRow: 0, kind: 'exact' });
+    expect(rows[1].resolution).toBe('skip');
+    expect(rows[2].match).toMatchObject({ within: 'import', earlierRow: 0, kind: 'similar' });
+  });
+
+  it('prefers the database card when a row repeats both', () => {
+    const rows = planImport([draft('Brick work in CM 1:6'), draft('Brick work in CM 1:6')], existing);
+    rows.forEach(row => expect(row.match?.within).toBe('database'));
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups exact and near duplicates, largest group first', () => {
+    const groups = findDuplicateGroups([
+      card('1', 'Cement plaster 12 mm thick'),
+      card('2', 'Brick work in CM 1:6'),
+      card('3', 'Brickwork in CM 1:6'),
+      card('4', 'brick work in cm 1:6'),
+      card('5', 'Cement plaster 12mm thick'),
+      card('6', 'Excavation'),
+    ]);
+    expect(groups.map(g => g.map(c => c.id))).toEqual([['2', '3', '4'], ['1', '5']]);
+  });
+
+  it('does not group the same item from different sources', () => {
+    expect(findDuplicateGroups([card('1', 'Excavation'), card('2', 'Excavation', { source: 'State SOR' })])).toEqual([]);
+  });
+});
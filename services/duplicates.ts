@@ -0,0 +1,174 @@
+import { SORItem } from "../types.ts";
+import { normaliseUnit } from "./units.ts";
+
+export type RateDraft = Omit<SORItem, 'id' | 'timestamp'>;
+
+export type DuplicateKind = 'exact' | 'similar';
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep-both';
+
+interface MatchDegree {
+  kind: DuplicateKind;
+  similarity: number;
+}
+
+export interface DatabaseDuplicate extends MatchDegree {
+  within: 'database';
+  existing: SORItem;
+}
+
+// A repeat of an earlier row in the same import, which can only be skipped or kept
+export interface ImportDuplicate extends MatchDegree {
+  within: 'import';
+  existing: RateDraft;
+  earlierRow: number;
+}
+
+export type DuplicateMatch = DatabaseDuplicate | ImportDuplicate;
+
+export interface ImportRow {
+  draft: RateDraft;
+  match: DuplicateMatch | null;
+  resolution: DuplicateResolution;
+}
+
+// Name plus scope this close, in the same unit, is the same item worded slightly differently
+const SIMILAR_THRESHOLD = 0.85;
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const unitKey = (unit: string) => normaliseUnit(unit) || normalise(unit);
+
+// The same item quoted by different sources is a benchmark, not a duplicate, so only cards
+// sharing a source and unit are ever compared
+const bucketKey = (item: Pick<SORItem, 'unit' | 'source'>) => `${unitKey(item.unit)}|${normalise(item.source)}`;
+
+const identityKey = (item: Pick<SORItem, 'name' | 'unit' | 'source'>) => `${normalise(item.name)}|${bucketKey(item)}`;
+
+interface TextProfile {
+  // Every figure in the text; "CM 1:4" and "CM 1:6" are different items however alike the wording
+  numbers: string;
+  grams: Set<string>;
+}
+
+// Spacing and punctuation are ignored so "Brick work" and "Brickwork" compare equal
+function profileOf(item: Pick<SORItem, 'name' | 'scopeOfWork'>): TextProfile {
+  const text = `${item.name} ${item.scopeOfWork}`.toLowerCase();
+  const compact = text.replace(/[^a-z0-9]+/g, '');
+  const grams = new Set<string>();
+  for (let i = 0; i < compact.length - 2; i++) grams.add(compact.slice(i, i + 3));
+  return { numbers: (text.match(/\d+(?:\.\d+)?/g) ?? []).sort().join(','), grams };
+}
+
+function profileSimilarity(a: TextProfile, b: TextProfile): number {
+  if (a.numbers !== b.numbers || a.grams.size === 0 || b.grams.size === 0) return 0;
+  let shared = 0;
+  a.grams.forEach(g => { if (b.grams.has(g)) shared++; });
+  return (2 * shared) / (a.grams.size + b.grams.size);
+}
+
+// Cheap pre-check: the overlap can only reach the threshold when the gram sets are of comparable size
+const couldBeSimilar = (a: TextProfile, b: TextProfile) =>
+  a.numbers === b.numbers && (2 * Math.min(a.grams.size, b.grams.size)) / (a.grams.size + b.grams.size || 1) >= SIMILAR_THRESHOLD;
+
+// Cards keyed and profiled once per import, however many cards come in
+interface DuplicateIndex<T extends RateDraft> {
+  byKey: Map<string, T>;
+  byBucket: Map<string, { item: T; profile: TextProfile }[]>;
+}
+
+function addToIndex<T extends RateDraft>(index: DuplicateIndex<T>, item: T) {
+  const key = identityKey(item);
+  if (!index.byKey.has(key)) index.byKey.set(key, item);
+  const bucket = bucketKey(item);
+  if (!index.byBucket.has(bucket)) index.byBucket.set(bucket, []);
+  index.byBucket.get(bucket)!.push({ item, profile: profileOf(item) });
+}
+
+function buildDuplicateIndex<T extends RateDraft>(items: T[]): DuplicateIndex<T> {
+  const index: DuplicateIndex<T> = { byKey: new Map(), byBucket: new Map() };
+  items.forEach(item => addToIndex(index, item));
+  return index;
+}
+
+/**
+ * The indexed rate card an incoming one duplicates: same name, unit and source, or the same unit
+ * and source with a near-identical name and scope.
+ */
+function findDuplicate<T extends RateDraft>(draft: RateDraft, index: DuplicateIndex<T>): (MatchDegree & { existing: T }) | null {
+  const exact = index.byKey.get(identityKey(draft));
+  if (exact) return { existing: exact, kind: 'exact', similarity: 1 };
+
+  const profile = profileOf(draft);
+  let best: (MatchDegree & { existing: T }) | null = null;
+  for (const { item, profile: other } of index.byBucket.get(bucketKey(draft)) ?? []) {
+    if (!couldBeSimilar(profile, other)) continue;
+    const similarity = profileSimilarity(profile, other);
+    if (similarity >= SIMILAR_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { existing: item, kind: 'similar', similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Pairs each incoming rate card with the one it duplicates, in the database or, failing that, earlier
+ * in the same import. Exact duplicates default to being skipped; near matches are kept alongside until
+ * the estimator decides.
+ */
+export function planImport(drafts: RateDraft[], existing: SORItem[]): ImportRow[] {
+  const index = buildDuplicateIndex(existing);
+  const earlier = buildDuplicateIndex<RateDraft>([]);
+  const rowOf = new Map<RateDraft, number>();
+  return drafts.map((draft, row) => {
+    const inDatabase = findDuplicate(draft, index);
+    const inImport = inDatabase ? null : findDuplicate(draft, earlier);
+    const match: DuplicateMatch | null = inDatabase ? { ...inDatabase, within: 'database' }
+      : inImport && { ...inImport, within: 'import', earlierRow: rowOf.get(inImport.existing)! };
+    addToIndex(earlier, draft);
+    rowOf.set(draft, row);
+    return { draft, match, resolution: match?.kind === 'exact' ? 'skip' : 'keep-both' };
+  });
+}
+
+/**
+ * Groups of rate cards already in the database that duplicate one another, largest groups first.
+ */
+export function findDuplicateGroups(items: SORItem[]): SORItem[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+  const byKey = new Map<string, number>();
+  const byBucket = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const key = identityKey(item);
+    const first = byKey.get(key);
+    if (first !== undefined) union(i, first);
+    else byKey.set(key, i);
+    const bucket = bucketKey(item);
+    if (!byBucket.has(bucket)) byBucket.set(bucket, []);
+    byBucket.get(bucket)!.push(i);
+  });
+
+  const profiles = items.map(profileOf);
+  byBucket.forEach(indices => {
+    for (let a = 0; a < indices.length; a++) {
+      for (let b = a + 1; b < indices.length; b++) {
+        const i = indices[a];
+        const j = indices[b];
+        if (find(i) === find(j) || !couldBeSimilar(profiles[i], profiles[j])) continue;
+        if (profileSimilarity(profiles[i], profiles[j]) >= SIMILAR_THRESHOLD) union(i, j);
+      }
+    }
+  });
+
+  const groups = new Map<number, SORItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(item);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,69 @@
+import { CostIndex, EscalationSettings, SORItem, TenderItem } from "../types.ts";
+
+export const DEFAULT_ESCALATION: EscalationSettings = {
+  enabled: false,
+  annualPercent: 5,
+  indices: [],
+};
+
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/;
+
+/**
+ * Year a rate card is priced at: the year named in its source ("DSR 2021"), otherwise the year it was entered.
+ */
+export function getRateYear(rate: Pick<SORItem, 'source' | 'timestamp'>): number {
+  const match = rate.source.match(YEAR_PATTERN);
+  return match ? Number(match[0]) : new Date(rate.timestamp).getFullYear();
+}
+
+export function getTenderYear(date: string): number {
+  const year = new Date(date).getFullYear();
+  return Number.isNaN(year) ? new Date().getFullYear() : year;
+}
+
+export interface Escalation {
+  factor: number;
+  basis: string;
+}
+
+// Index rows whose source name appears in the rate's source, falling back to the rows that apply to every source
+function indexSeries(source: string, indices: CostIndex[]): CostIndex[] {
+  const lower = source.toLowerCase();
+  const specific = indices.filter(i => i.source.trim() && lower.includes(i.source.trim().toLowerCase()));
+  return specific.length > 0 ? specific : indices.filter(i => !i.source.trim());
+}
+
+/**
+ * Factor taking a rate card from its own year to the target year. A cost index for both years wins;
+ * otherwise the flat annual percentage is compounded. Returns null when nothing needs escalating.
+ */
+export function getEscalation(rate: Pick<SORItem, 'source' | 'timestamp'>, targetYear: number, settings: EscalationSettings): Escalation | null {
+  const fromYear = getRateYear(rate);
+  if (!settings.enabled || targetYear <= fromYear) return null;
+
+  const series = indexSeries(rate.source, settings.indices);
+  const base = series.find(i => i.year === fromYear);
+  // The latest index published up to the target year stands in for the target year itself
+  const current = series.filter(i => i.year <= targetYear).sort((a, b) => b.year - a.year)[0];
+  if (base && current && current.year > base.year && base.value > 0) {
+    return {
+      factor: current.value / base.value,
+      basis: `${base.source.trim() || 'Cost'} index ${base.year} → ${current.year} (${base.value} → ${current.value})`,
+    };
+  }
+
+  if (!settings.annualPercent) return null;
+  const years = targetYear - fromYear;
+  return {
+    factor: Math.pow(1 + settings.annualPercent / 100, years),
+    basis: `${settings.annualPercent}% a year for ${years} year${years === 1 ? '' : 's'} since ${fromYear}`,
+  };
+}
+
+/**
+ * Recomputes a line's escalation for its current rate card. Manual rates are taken as already current.
+ */
+export function applyEscalation(item: TenderItem, targetYear: number, settings: EscalationSettings): TenderItem {
+  const escalation = item.status !== 'manual' && item.matchedRate ? getEscalation(item.matchedRate, targetYear, settings) : null;
+  return { ...item, escalationFactor: escalation?.factor, escalationBasis: escalation?.basis };
+}
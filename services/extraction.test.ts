@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedTenderLine } from '../types.ts';
+import { findUncapturedLines, splitIntoChunks, stitchChunks } from './extraction.ts';
+
+const item = (name: string, quantity: number, unit = 'cum', fields: Partial<ParsedTenderLine> = {}): ParsedTenderLine =>
+  ({ name, quantity, unit, requestedScope: '', ...fields });
+
+const BOQ = `1. Excavation in ordinary soil
+Qty. 150 cum @ Rs 450
+
+2. Brick work in CM 1:6
+12.50 sqm
+
+3. Plaster 12 mm thick in CM 1:4
+Say 10 sqm`;
+
+describe('splitIntoChunks', () => {
+  it('keeps short text in one chunk, without its blank lines', () => {
+    const chunks = splitIntoChunks(BOQ);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe(BOQ.replace(/\n\n/g, '\n'));
+    expect(chunks[0].lines).toEqual([0, 1, 3, 4, 6, 7]);
+  });
+
+  it('breaks only between items and opens each chunk with the last item of the one before', () => {
+    const chunks = splitIntoChunks(BOQ, 100);
+    // "12.50 sqm" is a figure of item 2, not an item of its own
+    expect(chunks.map(chunk => chunk.lines)).toEqual([[0, 1, 3, 4], [3, 4, 6, 7]]);
+  });
+
+  it('cuts an item longer than a chunk between its lines', () => {
+    const long = Array.from({ length: 20 }, (_, i) => `line ${i} of one very long item description`).join('\n');
+    const chunks = splitIntoChunks(long, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(200));
+  });
+});
+
+describe('stitchChunks', () => {
+  it('keeps an item read on both sides of a chunk edge once, in its fuller reading', () => {
+    const stitched = stitchChunks([
+      [item('Excavation in ordinary soil', 150), item('Brick work', 12.5, 'sqm')],
+      [item('Brick work in CM 1:6', 12.5, 'sqm'), item('Plaster 12 mm thick', 10, 'sqm')],
+    ]);
+    expect(stitched.map(i => i.name)).toEqual(['Excavation in ordinary soil', 'Brick work in CM 1:6', 'Plaster 12 mm thick']);
+  });
+
+  it('keeps alike items with different quantities apart', () => {
+    const stitched = stitchChunks([[item('Brick work', 10)], [item('Brick work', 20)]]);
+    expect(stitched).toHaveLength(2);
+  });
+});
+
+describe('findUncapturedLines', () => {
+  it('reports nothing when every item was read', () => {
+    const chunks = splitIntoChunks(BOQ);
+    const results = [[
+      item('Excavation in ordinary soil', 150, 'cum', { estimatedRate: 450 }),
+      item('Brick work in CM 1:6', 12.5, 'sqm'),
+      item('Plaster 12 mm thick in CM 1:4', 10, 'sqm'),
+    ]];
+    expect(findUncapturedLines(BOQ, chunks, results)).toEqual([]);
+  });
+
+  it('reports an item the model skipped', () => {
+    const chunks = splitIntoChunks(BOQ);
+    const results = [[item('Excavation in ordinary soil', 150, 'cum', { estimatedRate: 450 }), item('Plaster 12 mm thick in CM 1:4', 10, 'sqm')]];
+    expect(findUncapturedLines(BOQ, chunks, results)).toEqual(['2. Brick work in CM 1:6']);
+  });
+
+  it('does not let a read item take the line of a skipped neighbour sharing its figures', () => {
+    const text = `1.1 Brick work in CM 1:6
+10 cum
+1.2 Brick work in CM 1:4
+10 cum
+1.3 Brick work in CM 1:3
+10 cum`;
+    const results = [[item('Brick work in CM 1:6', 10), item('Brick work in CM 1:3', 10)]];
+    expect(findUncapturedLines(text, splitIntoChunks(text), results)).toEqual(['1.2 Brick work in CM 1:4']);
+  });
+
+  it('reports a skipped row of a list pasted from a spreadsheet', () => {
+    const text = `Brick work CM 1:6 10 cum
+Brick work CM 1:4 10 cum
+Brick work CM 1:3 10 cum`;
+    const results = [[item('Brick work CM 1:6', 10), item('Brick work CM 1:3', 10)]];
+    expect(findUncapturedLines(text, splitIntoChunks(text), results)).toEqual(['Brick work CM 1:4 10 cum']);
+  });
+});
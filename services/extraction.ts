@@ -0,0 +1,210 @@
+import { ParsedTenderLine } from "../types.ts";
+import { aliasKey } from "./aliases.ts";
+import { tokenize } from "./localMatcher.ts";
+import { isKnownUnit, normaliseUnit } from "./units.ts";
+
+// Text sent per extraction request; small enough that the items found fit comfortably in one reply
+export const MAX_CHUNK_CHARS = 6000;
+
+// Items at the end of one chunk compared with those at the start of the next when stitching
+const EDGE_WINDOW = 3;
+
+// A line starting an item: "1.", "2.8.1 Earth work", "a)", "(iv)", "Item 12", or a bullet. Letters only count
+// alone or as roman numerals, so continuation lines such as "Qty. 150 cum" or "Rs. 450" stay with their item
+const ITEM_START = /^\s*(?:\(?(?:\d{1,4}|[a-z]|[ivx]{2,4})[.)]\s|\d+(?:\.\d+)+(?:[.)]\s|\s+([a-z]+))|item\s+(?:no\.?\s*)?\d+|[-•*]\s)/i;
+
+// Words that label a quantity or price rather than describe the work, as in "Qty. 150 cum @ Rs 450"
+const LABEL_WORDS = new Set(['qty', 'qnty', 'quantity', 'rate', 'rs', 'inr', 'amount', 'amt', 'unit', 'units', 'say', 'per']);
+
+// A code such as "2.8.1" followed by a unit or label is a figure continuing its item, as in "12.50 sqm"
+function startsItem(line: string): boolean {
+  const match = ITEM_START.exec(line);
+  if (!match) return false;
+  const word = match[1]?.toLowerCase();
+  return !word || !(isKnownUnit(word) || LABEL_WORDS.has(word));
+}
+
+export interface TextChunk {
+  text: string;
+  // Positions of the source lines it holds, so what was missed can be traced back
+  lines: number[];
+}
+
+// Consecutive lines that belong to the same item, as far as the layout shows
+type Block = number[];
+
+const splitLines = (text: string) => text.split(/\r?\n/);
+
+function toBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let current: Block = [];
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      if (current.length) blocks.push(current);
+      current = [];
+      return;
+    }
+    if (startsItem(line) && current.length) {
+      blocks.push(current);
+      current = [];
+    }
+    current.push(i);
+  });
+  if (current.length) blocks.push(current);
+  return blocks;
+}
+
+/**
+ * Splits pasted tender text into chunks of about `maxChars`, breaking only between items where the
+ * layout shows them. The last item of each chunk opens the next one as well, so an item whose lines
+ * were misjudged is still read whole once; `stitchChunks` drops the repeat.
+ */
+export function splitIntoChunks(text: string, maxChars = MAX_CHUNK_CHARS): TextChunk[] {
+  const lines = splitLines(text);
+  const size = (block: Block) => block.reduce((sum, i) => sum + lines[i].length + 1, 0);
+
+  // An item longer than a chunk is cut between its lines
+  const blocks = toBlocks(lines).flatMap(block => {
+    if (size(block) <= maxChars) return [block];
+    const pieces: Block[] = [[]];
+    block.forEach(i => {
+      const piece = pieces[pieces.length - 1];
+      if (piece.length && size(piece) + lines[i].length + 1 > maxChars) pieces.push([i]);
+      else piece.push(i);
+    });
+    return pieces;
+  });
+
+  const chunks: Block[] = [];
+  let current: Block = [];
+  let last: Block = [];
+  blocks.forEach(block => {
+    if (current.length && size(current) + size(block) > maxChars) {
+      chunks.push(current);
+      current = size(last) + size(block) <= maxChars ? [...last] : [];
+    }
+    current.push(...block);
+    last = block;
+  });
+  if (current.length) chunks.push(current);
+
+  return chunks.map(chunk => ({ text: chunk.map(i => lines[i]).join('\n'), lines: chunk }));
+}
+
+const describes = (item: ParsedTenderLine) => aliasKey(item.name);
+
+// The same item read from both sides of a chunk edge, perhaps with its description cut short on one side
+function sameItem(a: ParsedTenderLine, b: ParsedTenderLine): boolean {
+  const unitA = normaliseUnit(a.unit).toLowerCase();
+  const unitB = normaliseUnit(b.unit).toLowerCase();
+  if (a.quantity !== b.quantity || (unitA && unitB && unitA !== unitB)) return false;
+  const nameA = describes(a);
+  const nameB = describes(b);
+  return !!nameA && !!nameB && (nameA.includes(nameB) || nameB.includes(nameA));
+}
+
+const detail = (item: ParsedTenderLine) => item.name.length + item.requestedScope.length + item.unit.length + (item.estimatedRate !== undefined ? 1 : 0);
+
+/**
+ * Joins the items extracted from each chunk in order. An item at the start of a chunk that repeats one
+ * at the end of the previous chunk is kept once, in its more complete reading.
+ */
+export function stitchChunks(results: ParsedTenderLine[][]): ParsedTenderLine[] {
+  const stitched: ParsedTenderLine[] = [];
+  results.forEach(items => {
+    const edgeEnd = stitched.length;
+    const edgeStart = Math.max(0, edgeEnd - EDGE_WINDOW);
+    const taken = new Set<number>();
+    items.forEach((item, i) => {
+      if (i < EDGE_WINDOW) {
+        for (let j = edgeStart; j < edgeEnd; j++) {
+          if (taken.has(j) || !sameItem(stitched[j], item)) continue;
+          taken.add(j);
+          if (detail(item) > detail(stitched[j])) stitched[j] = item;
+          return;
+        }
+      }
+      stitched.push(item);
+    });
+  });
+  return stitched;
+}
+
+// Words and numbers of a text; numbers compare by value, so "1,250.00" and 1250 agree, and a mix such
+// as "1:4" as written
+function termsOf(text: string): { words: string[]; numbers: string[] } {
+  const tokens = tokenize(text.replace(/(\d),(?=\d)/g, '$1'));
+  return {
+    words: tokens.filter(token => /[a-z]/.test(token) && !LABEL_WORDS.has(token) && !isKnownUnit(token)),
+    numbers: tokens.filter(token => !/[a-z]/.test(token)).map(token => Number.isFinite(Number(token)) ? String(Number(token)) : token),
+  };
+}
+
+function itemTerms(item: ParsedTenderLine): Set<string> {
+  const { words, numbers } = termsOf(`${item.name} ${item.requestedScope}`);
+  return new Set([...words, ...numbers, String(item.quantity), ...(item.estimatedRate !== undefined ? [String(item.estimatedRate)] : [])]);
+}
+
+// Positions 0..count-1 by distance from `from`, the one after it before the one before it
+function nearestFirst(count: number, from: number): number[] {
+  const order: number[] = [];
+  for (let d = 0; order.length < count; d++) {
+    if (from + d < count) order.push(from + d);
+    if (d > 0 && from - d >= 0) order.push(from - d);
+    if (from + d >= count && from - d < 0) break;
+  }
+  return order;
+}
+
+/**
+ * Source lines with words that no extracted item accounts for, such as an item the model skipped. Each
+ * item claims the line of its chunk it shares most with; items come in reading order, so of lines sharing
+ * as much the one nearest after the previous item's line wins. A line is claimed once, and a claimed line
+ * accounts for its whole item block. A block claimed by several items is a list of one-line items, as
+ * pasted from a spreadsheet; there a line is accounted for by the item claiming the line above when its
+ * numbers all belong to that item and most of its words do. Lines without descriptive words are not reported.
+ */
+export function findUncapturedLines(text: string, chunks: TextChunk[], results: ParsedTenderLine[][]): string[] {
+  const lines = splitLines(text);
+  const terms = lines.map(termsOf);
+  const blocks = toBlocks(lines);
+  const blockOf = new Map<number, number>();
+  blocks.forEach((block, b) => block.forEach(i => blockOf.set(i, b)));
+
+  const claimedBy = new Map<number, Set<string>>();
+  chunks.forEach((chunk, c) => {
+    let previous = -1;
+    results[c].forEach(item => {
+      const vocabulary = itemTerms(item);
+      let best = -1;
+      let bestShared = 0;
+      nearestFirst(chunk.lines.length, previous + 1).forEach(p => {
+        const i = chunk.lines[p];
+        const shared = [...terms[i].words, ...terms[i].numbers].filter(term => vocabulary.has(term)).length;
+        if (shared > bestShared) {
+          best = p;
+          bestShared = shared;
+        }
+      });
+      if (best < 0) return;
+      previous = best;
+      // A line another item already holds stays with it; this item is then a repeat from the chunk overlap
+      if (!claimedBy.has(chunk.lines[best])) claimedBy.set(chunk.lines[best], vocabulary);
+    });
+  });
+
+  const claims = blocks.map(block => block.filter(i => claimedBy.has(i)).length);
+  let owner: Set<string> | undefined;
+  return lines.flatMap((line, i) => {
+    if (claimedBy.has(i)) {
+      owner = claimedBy.get(i);
+      return [];
+    }
+    const b = blockOf.get(i);
+    if (b === undefined || terms[i].words.length === 0 || claims[b] === 1) return [];
+    if (i === 0 || blockOf.get(i - 1) !== b) owner = undefined;
+    const { words, numbers } = terms[i];
+    const continues = owner && numbers.every(n => owner!.has(n)) && words.filter(w => owner!.has(w)).length * 2 >= words.length;
+    return continues ? [] : [line.trim()];
+  });
+}
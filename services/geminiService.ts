@@ -1,166 +1,307 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { SORItem, MatchResult } from "../types.ts";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { SORItem, MatchResult, ParsedTenderLine } from "../types.ts";
+import { AiError, withRetry } from "./aiErrors.ts";
+import { MappedRows, parseNumber } from "./spreadsheet.ts";
+import { findUncapturedLines, splitIntoChunks, stitchChunks } from "./extraction.ts";
+
+// The estimator's own key, kept in this browser only; nothing is compiled into the published bundle
+const API_KEY_STORAGE_KEY = 'smart_rate_gemini_key_v1';
 
-// Defensive access to environment variables
 const getApiKey = () => {
   try {
-    return process?.env?.API_KEY || '';
+    return localStorage.getItem(API_KEY_STORAGE_KEY) || '';
   } catch (e) {
     return '';
   }
 };
 
-const ai = new GoogleGenAI({ apiKey: getApiKey() });
+export const setApiKey = (key: string) => {
+  if (key.trim()) localStorage.setItem(API_KEY_STORAGE_KEY, key.trim());
+  else localStorage.removeItem(API_KEY_STORAGE_KEY);
+};
 
-export async function checkScopeMatch(
-  requestedScope: string,
-  existingScope: string
-): Promise<MatchResult> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Compare these two descriptions of 'Scope of Work' for a construction or technical tender item. 
-      Determine if they are functionally equivalent or if the existing scope covers the requested requirements.
-
-      Requested Scope: "${requestedScope}"
-      Existing Scope in Database: "${existingScope}"
-      
-      Return a JSON object indicating if it's a match, a confidence score (0-1), and a brief reasoning.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            isMatch: { type: Type.BOOLEAN },
-            confidence: { type: Type.NUMBER },
-            reason: { type: Type.STRING },
-          },
-          required: ["isMatch", "confidence", "reason"],
-        },
-      },
-    });
+// The client is rebuilt whenever the key changes
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+const getClient = () => {
+  const apiKey = getApiKey();
+  if (client?.apiKey !== apiKey) client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  return client.ai;
+};
 
-    const result = JSON.parse(response.text || '{}');
-    return {
-      isMatch: result.isMatch ?? false,
-      confidence: result.confidence ?? 0,
-      reason: result.reason ?? "Unknown",
-    };
-  } catch (error) {
-    console.error("Gemini scope check failed:", error);
-    return { isMatch: false, confidence: 0, reason: "Error validating scope." };
-  }
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+export const hasApiKey = () => getApiKey() !== '';
+
+// Long extractions take a while, but a request silent for this long is not coming back
+const REQUEST_TIMEOUT_MS = 120_000;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOf = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// The schema asks for numbers, but quoted ones like "1,250.00" still turn up
+const numberOf = (value: unknown): number | null =>
+  typeof value === 'number' ? (Number.isFinite(value) ? value : null) : typeof value === 'string' ? parseNumber(value) : null;
+
+const malformed = (detail: string) => new AiError('malformed-response', undefined, detail);
+
+// Entries of the reply that are JSON objects; anything else in the list is ignored
+function objectsIn(data: unknown): JsonObject[] {
+  if (!Array.isArray(data)) throw malformed('expected a list');
+  return data.filter(isObject);
 }
 
 /**
- * Finds the most similar item from a list of available database items using semantic similarity.
+ * Sends a prompt whose answer must be JSON in the given schema and passes the parsed reply to `read`,
+ * which checks its shape. Failures throw an `AiError`; transient ones, a garbled reply included, are retried.
  */
-export async function findBestMatchingItem(
-  targetItemName: string,
-  targetScope: string,
-  dbItems: { id: string; name: string }[]
-): Promise<string | null> {
-  if (dbItems.length === 0) return null;
+async function generateJson<T>(contents: string, responseSchema: Schema, read: (data: unknown) => T): Promise<T> {
+  if (!hasApiKey()) throw new AiError('api-key');
+  return withRetry(async () => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents,
+      config: { responseMimeType: "application/json", responseSchema, httpOptions: { timeout: REQUEST_TIMEOUT_MS } },
+    });
+    let data: unknown;
+    try {
+      data = JSON.parse(response.text ?? '');
+    } catch {
+      throw malformed('not valid JSON');
+    }
+    return read(data);
+  });
+}
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `I have a tender item: "${targetItemName}" with scope: "${targetScope}".
-      I have a list of items from my database below. 
-      Identify which item from the list is the most similar or a functional equivalent.
-      
-      Database Items:
-      ${dbItems.map(item => `- ${item.name} (ID: ${item.id})`).join('\n')}
-      
-      If there is a reasonably close match (even if not exact), return the ID of that item.
-      If NO items are even remotely similar, return null.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            matchedId: { type: Type.STRING, nullable: true },
-            reason: { type: Type.STRING }
-          },
-          required: ["matchedId"]
+/**
+ * Judges, for each pair, whether the existing scope of work covers the requested one. All pairs go in
+ * one request; results come back in the order given.
+ */
+export async function checkScopeMatches(
+  pairs: { requestedScope: string; existingScope: string }[]
+): Promise<MatchResult[]> {
+  if (pairs.length === 0) return [];
+
+  return generateJson(
+    `Compare each numbered pair of 'Scope of Work' descriptions for construction or technical tender items.
+    For every pair, determine if they are functionally equivalent or if the existing scope covers the requested requirements.
+
+    ${pairs.map((pair, i) => `Pair ${i + 1}:\n    Requested Scope: "${pair.requestedScope}"\n    Existing Scope in Database: "${pair.existingScope}"`).join('\n\n    ')}
+
+    Return one JSON object per pair with its pair number, whether it's a match, a confidence score (0-1) that the existing
+    scope covers the requested one (0 = clearly different work, 1 = certainly equivalent), and a brief reasoning a quantity surveyor can read.`,
+    {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          pair: { type: Type.INTEGER },
+          isMatch: { type: Type.BOOLEAN },
+          confidence: { type: Type.NUMBER },
+          reason: { type: Type.STRING },
         },
+        required: ["pair", "isMatch", "confidence", "reason"],
       },
-    });
+    },
+    data => {
+      const results = new Map(objectsIn(data)
+        .filter(r => typeof r.isMatch === 'boolean' && numberOf(r.confidence) !== null)
+        .map(r => [numberOf(r.pair), r]));
+      if (results.size === 0) throw malformed('no usable assessments');
+      return pairs.map((_, i): MatchResult => {
+        const result = results.get(i + 1);
+        if (!result) return { isMatch: false, confidence: 0, reason: "No assessment returned." };
+        // A confidence outside 0-1 would slip past the thresholds
+        const confidence = Math.min(1, Math.max(0, numberOf(result.confidence)!));
+        return { isMatch: result.isMatch as boolean, confidence, reason: stringOf(result.reason) || "No reason given." };
+      });
+    },
+  );
+}
 
-    const result = JSON.parse(response.text || '{}');
-    return result.matchedId || null;
-  } catch (error) {
-    console.error("Semantic matching failed:", error);
-    return null;
-  }
+/**
+ * Finds, for each tender line, the most similar item from its own shortlist of database items using
+ * semantic similarity. Each result is the chosen id with the model's reasoning, or null when nothing is similar.
+ */
+export async function findBestMatchingItems(
+  targets: { name: string; scope: string; candidates: { id: string; name: string }[] }[]
+): Promise<({ matchedId: string; reason: string } | null)[]> {
+  if (targets.every(target => target.candidates.length === 0)) return targets.map(() => null);
+
+  return generateJson(
+    `I have these numbered tender items, each followed by candidate items from my database.
+    For each tender item, identify which of its candidates is the most similar or a functional equivalent.
+
+    ${targets.map((target, i) => `${i + 1}. "${target.name}" with scope: "${target.scope}"
+    Candidates:
+    ${target.candidates.map(item => `- ${item.name} (ID: ${item.id})`).join('\n    ') || '(none)'}`).join('\n\n    ')}
+
+    If there is a reasonably close match (even if not exact), return the ID of that candidate with the tender item's number.
+    If NO candidates are even remotely similar, return null as its ID.`,
+    {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          line: { type: Type.INTEGER },
+          matchedId: { type: Type.STRING, nullable: true },
+          reason: { type: Type.STRING }
+        },
+        required: ["line", "matchedId", "reason"]
+      }
+    },
+    data => {
+      const results = new Map(objectsIn(data).map(r => [numberOf(r.line), r]));
+      if (results.size === 0) throw malformed('no usable matches');
+      return targets.map((target, i) => {
+        const result = results.get(i + 1);
+        const matchedId = stringOf(result?.matchedId);
+        // Only a candidate offered for this line may be chosen; any other id is invented
+        if (!matchedId || !target.candidates.some(c => c.id === matchedId)) return null;
+        return { matchedId, reason: stringOf(result?.reason) };
+      });
+    },
+  );
 }
 
-export async function parseBulkItems(text: string): Promise<any[]> {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: `Extract a list of items from this raw text which might be a copy-paste from a tender document or spreadsheet.
-            Identify: Name of item, Quantity, Scope of Work description, and any provided Estimated Rate or Unit Rate that is mentioned in the text.
-            
-            Text:
-            ${text}`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            name: { type: Type.STRING },
-                            quantity: { type: Type.NUMBER },
-                            requestedScope: { type: Type.STRING },
-                            estimatedRate: { type: Type.NUMBER, description: "The existing rate provided in the list if any" }
-                        },
-                        required: ["name", "quantity", "requestedScope"]
-                    }
-                }
-            }
-        });
-        return JSON.parse(response.text || '[]');
-    } catch (e) {
-        return [];
+export interface BulkExtraction extends MappedRows<ParsedTenderLine> {
+  // Lines of the pasted text with words no extracted item accounts for
+  uncaptured: string[];
+}
+
+// Chunks of a long document read at the same time
+const EXTRACTION_CONCURRENCY = 3;
+
+/**
+ * Extracts tender lines from pasted text. Long text is read in chunks split between items, stitched back
+ * in order; `onProgress` hears as each chunk is done. Entries without a name or a usable quantity are
+ * counted as skipped.
+ */
+export async function parseBulkItems(text: string, onProgress?: (done: number, total: number) => void): Promise<BulkExtraction> {
+  const chunks = splitIntoChunks(text);
+  const results: MappedRows<ParsedTenderLine>[] = [];
+  let next = 0;
+  let done = 0;
+  onProgress?.(done, chunks.length);
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const i = next++;
+      try {
+        results[i] = await extractTenderLines(chunks[i].text);
+      } catch (e) {
+        // Without every chunk the tender would have holes, so no further chunk is sent
+        next = chunks.length;
+        throw e;
+      }
+      onProgress?.(++done, chunks.length);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(EXTRACTION_CONCURRENCY, chunks.length) }, worker));
+
+  const found = results.map(r => r.items);
+  return {
+    items: stitchChunks(found),
+    skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+    uncaptured: findUncapturedLines(text, chunks, found),
+  };
 }
 
-export async function parseRatesFromText(text: string): Promise<Omit<SORItem, 'id' | 'timestamp'>[]> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Extract detailed Schedule of Rates (SOR) data from the following raw text. 
-      The text might contain item names, units (m3, sqm, kg, etc.), rates (numerical values), scope of work descriptions, and source/reference information.
-      
-      If a piece of information like 'Source' is missing, leave it as an empty string.
-      
-      Text:
-      ${text}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "The name of the item" },
-              unit: { type: Type.STRING, description: "The unit of measurement (e.g., m3, kg)" },
-              rate: { type: Type.NUMBER, description: "The rate/price per unit" },
-              scopeOfWork: { type: Type.STRING, description: "The detailed scope of work or technical specification" },
-              source: { type: Type.STRING, description: "The source document or reference for this rate" },
-            },
-            required: ["name", "unit", "rate", "scopeOfWork", "source"]
-          },
+async function extractTenderLines(text: string): Promise<MappedRows<ParsedTenderLine>> {
+  return generateJson(
+    `Extract a list of items from this raw text which might be a copy-paste from a tender document or spreadsheet, or one part of a longer one.
+    Identify: Name of item, Quantity, Unit of measurement of that quantity, Scope of Work description, and any provided Estimated Rate or Unit Rate that is mentioned in the text.
+    Report the unit exactly as written (e.g. m, sqm, cum, kg, MT, nos). If no unit is given, leave it as an empty string.
+
+    Text:
+    ${text}`,
+    {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unit: { type: Type.STRING, description: "The unit of measurement of the quantity (e.g., m, sqm, cum, kg)" },
+          requestedScope: { type: Type.STRING },
+          estimatedRate: { type: Type.NUMBER, description: "The existing rate provided in the list if any" }
         },
-      },
+        required: ["name", "quantity", "requestedScope"]
+      }
+    },
+    readTenderLines,
+  );
+}
+
+function readTenderLines(data: unknown): MappedRows<ParsedTenderLine> {
+  const entries = objectsIn(data);
+  const items: ParsedTenderLine[] = [];
+  entries.forEach(e => {
+    const name = stringOf(e.name);
+    const quantity = numberOf(e.quantity);
+    if (!name || quantity === null || quantity < 0) return;
+    items.push({
+      name,
+      quantity,
+      unit: stringOf(e.unit),
+      requestedScope: stringOf(e.requestedScope),
+      estimatedRate: numberOf(e.estimatedRate) ?? undefined,
     });
+  });
+  return { items, skipped: entries.length - items.length };
+}
 
-    return JSON.parse(response.text || '[]');
-  } catch (error) {
-    console.error("Gemini rate parsing failed:", error);
-    return [];
-  }
+/**
+ * Extracts rate cards from pasted schedule text. Entries without a name or a usable rate are counted as skipped.
+ */
+export async function parseRatesFromText(text: string): Promise<MappedRows<Omit<SORItem, 'id' | 'timestamp'>>> {
+  return generateJson(
+    `Extract detailed Schedule of Rates (SOR) data from the following raw text.
+    The text might contain item names, units (m3, sqm, kg, etc.), rates (numerical values), scope of work descriptions, and source/reference information.
+
+    If a piece of information like 'Source' is missing, leave it as an empty string.
+
+    Text:
+    ${text}`,
+    {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "The name of the item" },
+          unit: { type: Type.STRING, description: "The unit of measurement (e.g., m3, kg)" },
+          rate: { type: Type.NUMBER, description: "The rate/price per unit" },
+          scopeOfWork: { type: Type.STRING, description: "The detailed scope of work or technical specification" },
+          source: { type: Type.STRING, description: "The source document or reference for this rate" },
+          itemCode: { type: Type.STRING, description: "The item number in the schedule, e.g. 2.8.1, if printed" },
+          chapter: { type: Type.STRING, description: "The chapter or category heading the item is listed under, if any" },
+        },
+        required: ["name", "unit", "rate", "scopeOfWork", "source"]
+      },
+    },
+    readRateDrafts,
+  );
+}
+
+function readRateDrafts(data: unknown): MappedRows<Omit<SORItem, 'id' | 'timestamp'>> {
+  const entries = objectsIn(data);
+  const items: Omit<SORItem, 'id' | 'timestamp'>[] = [];
+  entries.forEach(e => {
+    const name = stringOf(e.name);
+    const rate = numberOf(e.rate);
+    if (!name || rate === null || rate < 0) return;
+    items.push({
+      name,
+      unit: stringOf(e.unit),
+      rate,
+      scopeOfWork: stringOf(e.scopeOfWork),
+      source: stringOf(e.source),
+      itemCode: stringOf(e.itemCode) || undefined,
+      chapter: stringOf(e.chapter) || undefined,
+    });
+  });
+  return { items, skipped: entries.length - items.length };
 }
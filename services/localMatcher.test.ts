@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SORItem } from '../types.ts';
+import { findLocalMatch, rankLocalMatches, scoreBreakdown, textSimilarity, tokenize } from './localMatcher.ts';
+
+const card = (id: string, name: string, scopeOfWork = ''): SORItem =>
+  ({ id, name, unit: 'cum', rate: 100, scopeOfWork, source: 'DSR 2023', timestamp: 0 });
+
+const RATES = [
+  card('excavation', 'Earth work in excavation in ordinary soil', 'Excavation by mechanical means including disposal up to 50 m'),
+  card('brick', 'Brick work in cement mortar 1:6', 'First class bricks in superstructure above plinth level'),
+  card('plaster', 'Cement plaster 12 mm thick in CM 1:4', 'Plaster on rough side of single or half brick wall'),
+];
+
+describe('tokenize', () => {
+  it('lower-cases, drops stop words and keeps ratios and decimals whole', () => {
+    expect(tokenize('Providing and laying Brick work in CM 1:6, 12.5 mm')).toEqual(['brick', 'cm', '1:6', '12.5', 'mm']);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('is 1 for the same wording and 0 for nothing in common', () => {
+    expect(textSimilarity('Brick work in CM 1:6', 'brick work in cm 1:6')).toBe(1);
+    expect(textSimilarity('Brick masonry', 'Steel reinforcement')).toBe(0);
+  });
+
+  it('still scores a misspelt word through its trigrams', () => {
+    expect(textSimilarity('Excvation in soil', 'Excavation in soil')).toBeGreaterThan(0.5);
+  });
+});
+
+describe('scoreBreakdown', () => {
+  it('scores on the name alone when the line gives no scope', () => {
+    const { nameScore, scopeScore, score } = scoreBreakdown({ name: 'Brick work in cement mortar 1:6', requestedScope: '' }, RATES[1]);
+    expect(score).toBe(nameScore);
+    expect(scopeScore).toBe(nameScore);
+  });
+
+  it('weights the name above the scope', () => {
+    const { nameScore, scopeScore, score } = scoreBreakdown({ name: 'Brick work 1:6', requestedScope: 'Bricks above plinth level' }, RATES[1]);
+    expect(score).toBeCloseTo(0.65 * nameScore + 0.35 * scopeScore);
+  });
+});
+
+describe('rankLocalMatches', () => {
+  it('puts the closest card first and keeps to the limit', () => {
+    const ranked = rankLocalMatches({ name: 'Excavation in ordinary soil', requestedScope: '' }, RATES, 2);
+    expect(ranked).toHaveLength(2);
+    expect(ranked[0].item.id).toBe('excavation');
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+});
+
+describe('findLocalMatch', () => {
+  it('finds the card a reworded line describes', () => {
+    expect(findLocalMatch({ name: '12mm cement plaster CM 1:4', requestedScope: '' }, RATES)?.item.id).toBe('plaster');
+  });
+
+  it('finds nothing when no card comes close', () => {
+    expect(findLocalMatch({ name: 'Structural steel fabrication', requestedScope: '' }, RATES)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { SORItem, MatchTarget } from "../types.ts";
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'for', 'in', 'into', 'with', 'to', 'on', 'at', 'by', 'as',
+  'per', 'all', 'etc', 'including', 'complete', 'providing', 'laying', 'fixing', 'work', 'works',
+]);
+
+export interface ScoredItem {
+  item: SORItem;
+  score: number;
+}
+
+// Below this a "best" candidate is more likely noise than a real equivalent
+const MIN_LOCAL_SCORE = 0.3;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9.:]+/)
+    .map(t => t.replace(/^[.:]+|[.:]+$/g, ''))
+    .filter(t => t.length > 0 && !STOP_WORDS.has(t));
+}
+
+const trigrams = (tokens: string[]): Set<string> => {
+  const padded = `  ${tokens.join(' ')} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(x => { if (b.has(x)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Blend of whole-word overlap and character trigram overlap, in the range 0-1.
+ * Trigrams catch spelling variants ("excavation" / "excvation") that word overlap misses.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  return 0.5 * dice(new Set(ta), new Set(tb)) + 0.5 * dice(trigrams(ta), trigrams(tb));
+}
+
+export function scoreBreakdown(target: MatchTarget, item: SORItem): { nameScore: number; scopeScore: number; score: number } {
+  const nameScore = textSimilarity(target.name, item.name);
+  if (!target.requestedScope?.trim()) return { nameScore, scopeScore: nameScore, score: nameScore };
+  const scopeScore = textSimilarity(target.requestedScope, `${item.name} ${item.scopeOfWork}`);
+  return { nameScore, scopeScore, score: 0.65 * nameScore + 0.35 * scopeScore };
+}
+
+export const scoreItem = (target: MatchTarget, item: SORItem): number => scoreBreakdown(target, item).score;
+
+export function rankLocalMatches(target: MatchTarget, sorItems: SORItem[], limit = 5): ScoredItem[] {
+  return sorItems
+    .map(item => ({ item, score: scoreItem(target, item) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export function findLocalMatch(target: MatchTarget, sorItems: SORItem[]): ScoredItem | null {
+  const [best] = rankLocalMatches(target, sorItems, 1);
+  return best && best.score >= MIN_LOCAL_SCORE ? best : null;
+}
@@ -0,0 +1,46 @@
+import { TenderItem } from "../types.ts";
+
+export interface MatchJobOptions {
+  batchSize: number;
+  concurrency: number;
+  signal: AbortSignal;
+  onStart: (batch: TenderItem[]) => void;
+  // `matched` is null when the batch failed, with what it threw as `error`; its lines are left as they were
+  onBatch: (batch: TenderItem[], matched: TenderItem[] | null, error?: unknown) => void;
+}
+
+// Lets the page repaint between batches, which local matching would otherwise never allow
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Matches tender lines in batches, with at most `concurrency` batches in flight, reporting each batch as
+ * soon as it finishes. Once `signal` aborts no further batch starts; batches already sent still report.
+ */
+export async function runMatchJob(
+  lines: TenderItem[],
+  match: (batch: TenderItem[]) => Promise<TenderItem[]>,
+  options: MatchJobOptions
+): Promise<void> {
+  const batches: TenderItem[][] = [];
+  for (let i = 0; i < lines.length; i += options.batchSize) batches.push(lines.slice(i, i + options.batchSize));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < batches.length) {
+      await nextFrame();
+      if (options.signal.aborted || next >= batches.length) return;
+      const batch = batches[next++];
+      options.onStart(batch);
+      let matched: TenderItem[] | null = null;
+      let error: unknown;
+      try {
+        matched = await match(batch);
+      } catch (e) {
+        console.error("Matching tender lines failed:", e);
+        error = e;
+      }
+      options.onBatch(batch, matched, error);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, batches.length) }, worker));
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MatchAlias, SORItem, TenderItem } from '../types.ts';
+import { DEFAULT_THRESHOLDS, MatchOptions, classifyConfidence, localMatcher, matchTenderItems } from './matcher.ts';
+import { DEFAULT_BENCHMARK } from './benchmark.ts';
+import { aliasKey } from './aliases.ts';
+
+const card = (id: string, name: string, fields: Partial<SORItem> = {}): SORItem =>
+  ({ id, name, unit: 'cum', rate: 100, scopeOfWork: '', source: 'DSR 2023', timestamp: 0, ...fields });
+
+const line = (id: string, name: string, fields: Partial<TenderItem> = {}): TenderItem =>
+  ({ id, name, quantity: 10, unit: 'cum', requestedScope: '', status: 'pending', ...fields });
+
+const RATES = [
+  card('excavation', 'Earth work in excavation in ordinary soil', { rate: 250, scopeOfWork: 'Excavation including disposal up to 50 m' }),
+  card('brick', 'Brick work in cement mortar 1:6', { rate: 6500, scopeOfWork: 'First class bricks above plinth level' }),
+  card('plaster', 'Cement plaster 12 mm thick in CM 1:4', { unit: 'sqm', rate: 300, scopeOfWork: 'Plaster on brick walls' }),
+];
+
+const OPTIONS: MatchOptions = { thresholds: DEFAULT_THRESHOLDS, benchmark: DEFAULT_BENCHMARK, shortlistSize: 25, aliases: [] };
+
+describe('matchTenderItems with the offline matcher', () => {
+  it('quotes a card with the same name and scope outright', async () => {
+    const [matched] = await matchTenderItems(
+      [line('1', 'Brick work in cement mortar 1:6', { requestedScope: 'First class bricks above plinth level' })], RATES, localMatcher, OPTIONS);
+    expect(matched.status).toBe('matched');
+    expect(matched.matchedRate?.id).toBe('brick');
+    expect(matched.confidence).toBe(1);
+  });
+
+  it('matches a reworded line and explains the score', async () => {
+    const [matched] = await matchTenderItems([line('1', 'Excavation in ordinary soil')], RATES, localMatcher, OPTIONS);
+    expect(matched.matchedRate?.id).toBe('excavation');
+    expect(['matched', 'review']).toContain(matched.status);
+    expect(matched.matchReason).toMatch(/similar/);
+    expect(matched.candidates?.[0].rate.id).toBe('excavation');
+  });
+
+  it('leaves a line nothing resembles unmatched, with alternatives', async () => {
+    const [matched] = await matchTenderItems([line('1', 'Structural steel fabrication')], RATES, localMatcher, OPTIONS);
+    expect(matched.status).toBe('no-match');
+    expect(matched.matchedRate).toBeUndefined();
+  });
+
+  it('converts the tender quantity into the rate unit', async () => {
+    const [matched] = await matchTenderItems([line('1', 'Cement plaster 12 mm thick in CM 1:4', { unit: 'sqft' })], RATES, localMatcher, OPTIONS);
+    expect(matched.matchedRate?.id).toBe('plaster');
+    expect(matched.unitFactor).toBeCloseTo(0.09290304);
+  });
+
+  it('flags a card quoted in a unit the line cannot be converted to', async () => {
+    const [matched] = await matchTenderItems([line('1', 'Cement plaster 12 mm thick in CM 1:4', { unit: 'kg' })], RATES, localMatcher, OPTIONS);
+    expect(matched.status).toBe('unit-mismatch');
+  });
+
+  it('uses the card the estimator confirmed for the same description before', async () => {
+    const aliases: MatchAlias[] = [{ id: 'a', key: aliasKey('Digging foundations'), description: 'Digging foundations', rateId: 'excavation', learnedAt: 0 }];
+    const [matched] = await matchTenderItems([line('1', 'Digging foundations')], RATES, localMatcher, { ...OPTIONS, aliases });
+    expect(matched.status).toBe('matched');
+    expect(matched.matchedRate?.id).toBe('excavation');
+  });
+
+  it('quotes the lowest of identically named cards from different sources', async () => {
+    const rates = [...RATES, card('brick-state', 'Brick work in cement mortar 1:6', { rate: 6100, source: 'State SOR 2023' })];
+    const [matched] = await matchTenderItems([line('1', 'Brick work in cement mortar 1:6')], rates, localMatcher, OPTIONS);
+    expect(matched.matchedRate?.rate).toBe(6100);
+  });
+
+  it('returns the lines in the order given', async () => {
+    const lines = [line('a', 'Cement plaster 12 mm thick'), line('b', 'Excavation in soil'), line('c', 'Brick work 1:6')];
+    const matched = await matchTenderItems(lines, RATES, localMatcher, OPTIONS);
+    expect(matched.map(m => m.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('classifyConfidence', () => {
+  it('sorts confidence against the thresholds', () => {
+    expect(classifyConfidence(0.9, DEFAULT_THRESHOLDS)).toBe('matched');
+    expect(classifyConfidence(0.5, DEFAULT_THRESHOLDS)).toBe('review');
+    expect(classifyConfidence(0.2, DEFAULT_THRESHOLDS)).toBe('no-match');
+  });
+});
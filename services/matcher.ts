@@ -0,0 +1,206 @@
+import { AppSettings, SORItem, BenchmarkSettings, MatchAlias, MatchCandidate, MatchTarget, MatcherId, MatchResult, MatchThresholds, TenderItem } from "../types.ts";
+import { findBestMatchingItems, checkScopeMatches, hasApiKey } from "./geminiService.ts";
+import { findLocalMatch, rankLocalMatches, scoreBreakdown, scoreItem } from "./localMatcher.ts";
+import { getRetrievalIndex, shortlist } from "./retrieval.ts";
+import { findAliasedRate } from "./aliases.ts";
+import { compareUnits } from "./units.ts";
+import { benchmarkGroupOf, selectBenchmark } from "./benchmark.ts";
+import { withoutHistory } from "./rateHistory.ts";
+
+export interface MatchSuggestion {
+  id: string;
+  reason: string;
+}
+
+// A tender line with the rate cards it may be matched to
+export interface MatchRequest {
+  target: MatchTarget;
+  shortlist: SORItem[];
+}
+
+export interface MatchPair {
+  target: MatchTarget;
+  item: SORItem;
+}
+
+/**
+ * A backend able to pick the rate card that best fits each of a batch of tender lines
+ * and to judge how well a given rate card covers a line. Results follow the order of the input.
+ */
+export interface Matcher {
+  id: MatcherId;
+  label: string;
+  requiresNetwork: boolean;
+  // Tender lines sent per request, and requests in flight at once, when a whole tender is matched
+  batchSize: number;
+  concurrency: number;
+  findBestMatches(requests: MatchRequest[]): Promise<(MatchSuggestion | null)[]>;
+  assessMatches(pairs: MatchPair[]): Promise<MatchResult[]>;
+}
+
+export const DEFAULT_THRESHOLDS: MatchThresholds = { matched: 0.85, review: 0.45 };
+
+export const CANDIDATE_LIMIT = 5;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const geminiMatcher: Matcher = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  requiresNetwork: true,
+  batchSize: 8,
+  concurrency: 3,
+  findBestMatches: async requests => {
+    const results = await findBestMatchingItems(requests.map(({ target, shortlist }) => ({
+      name: target.name,
+      scope: target.requestedScope,
+      candidates: shortlist.map(d => ({ id: d.id, name: d.name })),
+    })));
+    return results.map(result => result ? { id: result.matchedId, reason: result.reason } : null);
+  },
+  assessMatches: pairs => checkScopeMatches(pairs.map(({ target, item }) => ({
+    requestedScope: `${target.name}. ${target.requestedScope}`,
+    existingScope: `${item.name}. ${item.scopeOfWork}`,
+  }))),
+};
+
+export const localMatcher: Matcher = {
+  id: 'local',
+  label: 'Offline Similarity',
+  requiresNetwork: false,
+  // Scoring runs on the page, so small batches one at a time keep the screen responsive between them
+  batchSize: 10,
+  concurrency: 1,
+  findBestMatches: async requests => requests.map(({ target, shortlist }) => {
+    const best = findLocalMatch(target, shortlist);
+    return best ? { id: best.item.id, reason: '' } : null;
+  }),
+  assessMatches: async pairs => pairs.map(({ target, item }) => {
+    const { nameScore, scopeScore, score } = scoreBreakdown(target, item);
+    return {
+      isMatch: score >= DEFAULT_THRESHOLDS.review,
+      confidence: score,
+      reason: `Name ${percent(nameScore)} similar, scope ${percent(scopeScore)} similar.`,
+    };
+  }),
+};
+
+export const MATCHERS: Matcher[] = [geminiMatcher, localMatcher];
+
+export function getMatcher(id: MatcherId): Matcher {
+  return MATCHERS.find(m => m.id === id) ?? localMatcher;
+}
+
+// Without an API key Gemini cannot answer, so new installs start offline
+export const defaultMatcherId = (): MatcherId => hasApiKey() ? 'gemini' : 'local';
+
+export function classifyConfidence(confidence: number, thresholds: MatchThresholds): TenderItem['status'] {
+  if (confidence >= thresholds.matched) return 'matched';
+  if (confidence >= thresholds.review) return 'review';
+  return 'no-match';
+}
+
+const normaliseText = (text: string) => text.toLowerCase().trim();
+
+/**
+ * Puts a rate card on a tender line, checking that the tender quantity converts into the rate's unit.
+ */
+export function assignRate(tenderItem: TenderItem, rate: SORItem, status: TenderItem['status'], fields: Partial<TenderItem> = {}): TenderItem {
+  const base: TenderItem = { ...tenderItem, ...fields, matchedRate: withoutHistory(rate), manualRate: undefined, unitFactor: undefined };
+  const units = compareUnits(tenderItem.unit, rate.unit);
+  if (units.kind === 'incompatible') return { ...base, status: 'unit-mismatch' };
+  return { ...base, unitFactor: units.factor, status };
+}
+
+/**
+ * Alternatives for a tender line ranked by local text similarity, with the chosen rate always first.
+ */
+export function rankCandidates(target: MatchTarget, sorData: SORItem[], chosen?: SORItem): MatchCandidate[] {
+  const ranked = rankLocalMatches(target, sorData, CANDIDATE_LIMIT)
+    .filter(r => r.score > 0 && r.item.id !== chosen?.id)
+    .map(r => ({ rate: withoutHistory(r.item), score: r.score }));
+  if (!chosen) return ranked;
+  return [{ rate: withoutHistory(chosen), score: scoreItem(target, chosen) }, ...ranked].slice(0, CANDIDATE_LIMIT);
+}
+
+// Every card equivalent to the ones found competes for the quote, those the tender unit converts to first
+function benchmarkFor(tenderItem: TenderItem, found: SORItem[], sorData: SORItem[], settings: BenchmarkSettings) {
+  const group = Array.from(new Map(found.flatMap(card => benchmarkGroupOf(card, sorData)).map(card => [card.id, card])).values());
+  const fits = (card: SORItem) => compareUnits(tenderItem.unit, card.unit).kind !== 'incompatible';
+  group.sort((a, b) => Number(fits(b)) - Number(fits(a)));
+  return { benchmark: selectBenchmark(group, settings)!, groupSize: group.length };
+}
+
+const IDENTICAL: MatchResult = { isMatch: true, confidence: 1, reason: 'Identical name and scope of work.' };
+const CONFIRMED: MatchResult = { isMatch: true, confidence: 1, reason: 'Confirmed by the estimator on an earlier tender.' };
+
+// What matching takes from the app settings, with the descriptions learned from earlier tenders
+export type MatchOptions = Pick<AppSettings, 'thresholds' | 'benchmark' | 'shortlistSize'> & { aliases: MatchAlias[] };
+
+/**
+ * Finds, scores and classifies the rates for a batch of tender lines, asking the matcher about the
+ * whole batch at once. Descriptions confirmed on earlier tenders and identically named rate cards are
+ * found outright; for anything else the matcher chooses from a local shortlist of cards. The rate quoted
+ * is then the benchmark of the found card's group.
+ */
+export async function matchTenderItems(
+  tenderItems: TenderItem[],
+  sorData: SORItem[],
+  matcher: Matcher,
+  options: MatchOptions
+): Promise<TenderItem[]> {
+  const index = getRetrievalIndex(sorData);
+  const shortlists = tenderItems.map(item => shortlist(index, item, options.shortlistSize));
+  const aliased = tenderItems.map(item => findAliasedRate(options.aliases, item.name, sorData));
+  const exactMatches = tenderItems.map((item, i) =>
+    aliased[i] ? [] : sorData.filter(sor => normaliseText(sor.name) === normaliseText(item.name)));
+  const unresolved = tenderItems.flatMap((target, i) =>
+    !aliased[i] && exactMatches[i].length === 0 ? [{ target, shortlist: shortlists[i] }] : []);
+  const suggestions = unresolved.length ? await matcher.findBestMatches(unresolved) : [];
+  const suggestionFor = new Map(unresolved.map(({ target }, i) => [target.id, suggestions[i]]));
+
+  const picks = tenderItems.map((tenderItem, i) => {
+    const suggestion = suggestionFor.get(tenderItem.id);
+    const alias = aliased[i];
+    const found = alias ? [alias.rate] : exactMatches[i].length ? exactMatches[i] : shortlists[i].filter(d => d.id === suggestion?.id);
+    if (found.length === 0) return null;
+
+    const { benchmark, groupSize } = benchmarkFor(tenderItem, found, sorData, options.benchmark);
+    // A median or mean is quoted on the nearest card, carrying the benchmark rate
+    const candidate: SORItem = benchmark.rate === benchmark.card.rate ? benchmark.card : { ...benchmark.card, rate: benchmark.rate };
+    const selectionReason = [suggestion?.reason, groupSize > 1 ? benchmark.basis : ''].filter(Boolean).join(' ');
+    const identical = normaliseText(candidate.name) === normaliseText(tenderItem.name)
+      && normaliseText(candidate.scopeOfWork) === normaliseText(tenderItem.requestedScope);
+    // Lines settled without asking the matcher carry their assessment already
+    const settled = alias ? CONFIRMED : identical ? IDENTICAL : null;
+    return { candidate, selectionReason, settled };
+  });
+
+  const toAssess = picks.flatMap((pick, i) => pick && !pick.settled ? [{ target: tenderItems[i], item: pick.candidate }] : []);
+  const assessments = toAssess.length ? await matcher.assessMatches(toAssess) : [];
+  let assessed = 0;
+
+  return tenderItems.map((tenderItem, i) => {
+    const base: TenderItem = { ...tenderItem, matchedRate: undefined, manualRate: undefined, unitFactor: undefined, confidence: undefined, matchReason: undefined };
+    const pick = picks[i];
+    if (!pick) {
+      return { ...base, status: 'no-match', candidates: rankCandidates(tenderItem, shortlists[i]), matchReason: 'No comparable item in the rate database.' };
+    }
+
+    const { candidate, selectionReason } = pick;
+    const assessment = pick.settled ?? assessments[assessed++];
+    const matchReason = [selectionReason, assessment.reason].filter(Boolean).join(' ');
+    const candidates = rankCandidates(tenderItem, shortlists[i], candidate);
+    const status = classifyConfidence(assessment.confidence, options.thresholds);
+    if (status === 'no-match') {
+      return { ...base, status, candidates, confidence: assessment.confidence, matchReason: `Closest item "${candidate.name}" rejected. ${matchReason}` };
+    }
+
+    return assignRate(base, candidate, status, { candidates, confidence: assessment.confidence, matchReason });
+  });
+}
+
+export async function matchTenderItem(tenderItem: TenderItem, sorData: SORItem[], matcher: Matcher, options: MatchOptions): Promise<TenderItem> {
+  const [matched] = await matchTenderItems([tenderItem], sorData, matcher, options);
+  return matched;
+}
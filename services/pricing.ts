@@ -0,0 +1,57 @@
+import { GstSlab, PricingAdjustments, RoundingRule, TenderItem } from "../types.ts";
+
+export const DEFAULT_GST_SLABS: GstSlab[] = [
+  { id: 'works', label: 'Works Contract', percent: 18 },
+  { id: 'govt-works', label: 'Govt. Works Contract', percent: 12 },
+  { id: 'earthwork', label: 'Earthwork (Govt.)', percent: 5 },
+  { id: 'exempt', label: 'Exempt', percent: 0 },
+];
+
+export const DEFAULT_PRICING: PricingAdjustments = {
+  overheadPercent: 0,
+  profitPercent: 0,
+  labourCessPercent: 0,
+  gstSlabs: DEFAULT_GST_SLABS,
+  defaultSlabId: 'works',
+  rounding: 'rupee',
+};
+
+// Tenders saved before adjustments existed keep their plain sum of line amounts
+export const UNADJUSTED_PRICING: PricingAdjustments = {
+  ...DEFAULT_PRICING,
+  defaultSlabId: 'exempt',
+  rounding: 'none',
+};
+
+export const ROUNDING_LABELS: Record<RoundingRule, string> = {
+  none: 'No rounding',
+  rupee: 'Nearest ₹1',
+  ten: 'Nearest ₹10',
+  hundred: 'Nearest ₹100',
+};
+
+// Digits argument for Excel's ROUND, so exported formulas round the same way
+export const ROUNDING_DIGITS: Record<RoundingRule, number | null> = { none: null, rupee: 0, ten: -1, hundred: -2 };
+
+export function roundAmount(amount: number, rule: RoundingRule): number {
+  const digits = ROUNDING_DIGITS[rule];
+  if (digits === null) return amount;
+  const step = Math.pow(10, -digits);
+  return Math.round(amount / step) * step;
+}
+
+export function getLineSlab(item: Pick<TenderItem, 'gstSlabId'>, pricing: PricingAdjustments): GstSlab {
+  const slabs = pricing.gstSlabs;
+  return slabs.find(s => s.id === item.gstSlabId)
+    ?? slabs.find(s => s.id === pricing.defaultSlabId)
+    ?? slabs[0]
+    ?? { id: 'exempt', label: 'Exempt', percent: 0 };
+}
+
+/**
+ * Multiplier taking a base amount to its taxable value: overheads on base, profit on
+ * base plus overheads, then labour cess on the whole works cost.
+ */
+export function markupFactor(pricing: PricingAdjustments): number {
+  return (1 + pricing.overheadPercent / 100) * (1 + pricing.profitPercent / 100) * (1 + pricing.labourCessPercent / 100);
+}
@@ -0,0 +1,230 @@
+import ExcelJS from "exceljs";
+import { Tender, TenderItem } from "../types.ts";
+import { calculateQuoteBreakdown, getLineAmount, getQuotedRate, getQuotedUnit } from "./tenders.ts";
+import { getBillableQuantity } from "./units.ts";
+import { ROUNDING_DIGITS, getLineSlab } from "./pricing.ts";
+import { downloadBlob, safeFileName } from "./download.ts";
+
+const BOQ_SHEET = 'BOQ';
+const FIRST_DATA_ROW = 5;
+const MONEY_FORMAT = '"₹"#,##0.00';
+const QTY_FORMAT = '#,##0.###';
+
+export const STATUS_LABELS: Record<TenderItem['status'], string> = {
+  pending: 'Pending',
+  matched: 'Matched',
+  review: 'Needs Review',
+  'no-match': 'No Match',
+  'unit-mismatch': 'Unit Mismatch',
+  manual: 'Manual Rate',
+};
+
+// Light fills mirroring the card colours in the tender builder
+const STATUS_FILLS: Record<TenderItem['status'], string | null> = {
+  pending: null,
+  matched: 'FFD1FAE5',
+  review: 'FFFEF3C7',
+  'no-match': 'FFF1F5F9',
+  'unit-mismatch': 'FFFEE2E2',
+  manual: 'FFE0E7FF',
+};
+
+const UNPRICED = 'Unpriced';
+
+// Lines left pending, unmatched or in the wrong unit are quoted at nothing, so no source backs them
+const sourceOf = (item: TenderItem) =>
+  item.status === 'manual' ? 'Manual Rate'
+    : !item.matchedRate || item.status === 'pending' || item.status === 'no-match' || item.status === 'unit-mismatch' ? UNPRICED
+      : item.matchedRate.source || 'Standard Reference';
+
+const headerStyle = (row: ExcelJS.Row) => {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF312E81' } };
+    cell.alignment = { vertical: 'middle', wrapText: true };
+  });
+};
+
+function addBoqSheet(workbook: ExcelJS.Workbook, tender: Tender): number {
+  const sheet = workbook.addWorksheet(BOQ_SHEET, { views: [{ state: 'frozen', ySplit: FIRST_DATA_ROW - 1 }] });
+  sheet.columns = [
+    { key: 'sl', width: 6 },
+    { key: 'name', width: 40 },
+    { key: 'scope', width: 50 },
+    { key: 'qty', width: 12, style: { numFmt: QTY_FORMAT } },
+    { key: 'unit', width: 10 },
+    { key: 'factor', width: 10, style: { numFmt: '0.######' } },
+    { key: 'billed', width: 12, style: { numFmt: QTY_FORMAT } },
+    { key: 'rateUnit', width: 10 },
+    { key: 'rate', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { key: 'amount', width: 16, style: { numFmt: MONEY_FORMAT } },
+    { key: 'estRate', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { key: 'variance', width: 11, style: { numFmt: '0.00%' } },
+    { key: 'matched', width: 40 },
+    { key: 'source', width: 20 },
+    { key: 'confidence', width: 11, style: { numFmt: '0%' } },
+    { key: 'status', width: 15 },
+    { key: 'gst', width: 8, style: { numFmt: '0.##"%"' } },
+    { key: 'sorRate', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { key: 'escalation', width: 11, style: { numFmt: '0.000' } },
+    { key: 'escalationBasis', width: 40 },
+  ];
+
+  sheet.mergeCells(1, 1, 1, 20);
+  sheet.getCell('A1').value = tender.name;
+  sheet.getCell('A1').font = { bold: true, size: 14 };
+  sheet.getCell('A2').value = [tender.client, tender.referenceNumber && `Ref: ${tender.referenceNumber}`, tender.date, tender.asOfDate && `Rates as of ${tender.asOfDate}`].filter(Boolean).join('  |  ');
+  sheet.getCell('A2').font = { italic: true, color: { argb: 'FF64748B' } };
+
+  const header = sheet.getRow(FIRST_DATA_ROW - 1);
+  header.values = [
+    'Sl No', 'Item', 'Requested Scope', 'Qty', 'Tender Unit', 'Conversion', 'Billed Qty', 'Rate Unit',
+    'Rate', 'Amount', 'Est. Rate', 'Variance', 'Matched SOR Item', 'Source', 'Confidence', 'Status', 'GST %',
+    'SOR Rate', 'Escalation', 'Escalation Basis',
+  ];
+  headerStyle(header);
+
+  tender.items.forEach((item, index) => {
+    const r = FIRST_DATA_ROW + index;
+    const quantity = item.quantity;
+    // Unit mismatches are priced at zero quantity so they stay visible without inflating the total
+    const factor = item.status === 'unit-mismatch' ? 0 : item.unitFactor ?? 1;
+    const rate = getQuotedRate(item);
+    const row = sheet.getRow(r);
+    row.values = {
+      sl: index + 1,
+      name: item.name,
+      scope: item.requestedScope,
+      qty: quantity,
+      unit: item.unit || '',
+      factor,
+      billed: { formula: `D${r}*F${r}`, result: getBillableQuantity(item) },
+      rateUnit: getQuotedUnit(item),
+      // Rate card prices are escalated in the sheet so the factor can be revised there
+      rate: item.status !== 'manual' && item.matchedRate ? { formula: `R${r}*S${r}`, result: rate } : rate,
+      amount: { formula: `G${r}*I${r}`, result: getLineAmount(item) },
+      estRate: item.estimatedRate ?? null,
+      variance: { formula: `IF(AND(K${r}>0,I${r}>0),(I${r}-K${r})/K${r},"")`, result: item.estimatedRate && rate ? (rate - item.estimatedRate) / item.estimatedRate : '' },
+      matched: item.status === 'manual' ? 'Manual Rate' : item.matchedRate?.name ?? '',
+      source: sourceOf(item),
+      confidence: item.confidence ?? null,
+      status: STATUS_LABELS[item.status],
+      gst: getLineSlab(item, tender.pricing).percent,
+      sorRate: item.status !== 'manual' ? item.matchedRate?.rate ?? null : null,
+      escalation: item.status !== 'manual' && item.matchedRate ? item.escalationFactor ?? 1 : null,
+      escalationBasis: item.escalationBasis ?? '',
+    };
+    row.alignment = { vertical: 'top', wrapText: true };
+    const fill = STATUS_FILLS[item.status];
+    if (fill) row.eachCell({ includeEmpty: true }, cell => { cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } }; });
+  });
+
+  const lastDataRow = Math.max(FIRST_DATA_ROW + tender.items.length - 1, FIRST_DATA_ROW);
+  return addPricingRows(sheet, tender, lastDataRow);
+}
+
+/**
+ * Writes the pricing layers below the BOQ as live formulas, so editing a rate or
+ * percentage in Excel flows through to the grand total. Returns the grand total row.
+ */
+function addPricingRows(sheet: ExcelJS.Worksheet, tender: Tender, lastDataRow: number): number {
+  const { pricing } = tender;
+  const breakdown = calculateQuoteBreakdown(tender.items, pricing);
+  const amounts = `J${FIRST_DATA_ROW}:J${lastDataRow}`;
+  let r = lastDataRow + 2;
+
+  const addRow = (label: string, formula: string, result: number, emphasise = false) => {
+    sheet.getCell(`I${r}`).value = label;
+    sheet.getCell(`J${r}`).value = { formula, result };
+    sheet.getCell(`J${r}`).numFmt = MONEY_FORMAT;
+    if (emphasise) sheet.getRow(r).font = { bold: true };
+    return r++;
+  };
+
+  const baseRow = addRow('Base Amount', `SUM(${amounts})`, breakdown.base, true);
+  const overheadRow = addRow(`Overheads @ ${pricing.overheadPercent}%`, `J${baseRow}*${pricing.overheadPercent}/100`, breakdown.overhead);
+  const profitRow = addRow(`Profit @ ${pricing.profitPercent}%`, `(J${baseRow}+J${overheadRow})*${pricing.profitPercent}/100`, breakdown.profit);
+  const cessRow = addRow(`Labour Cess @ ${pricing.labourCessPercent}%`, `SUM(J${baseRow}:J${profitRow})*${pricing.labourCessPercent}/100`, breakdown.labourCess);
+  const taxableRow = addRow('Taxable Value', `SUM(J${baseRow}:J${cessRow})`, breakdown.taxableValue, true);
+
+  // Each slab's share of the taxable value follows its share of the base amount
+  const taxRows = breakdown.taxes.filter(t => t.percent > 0).map(t => addRow(
+    `GST @ ${t.percent}%`,
+    `IF(J${baseRow}=0,0,SUMIF(Q${FIRST_DATA_ROW}:Q${lastDataRow},${t.percent},${amounts})*J${taxableRow}/J${baseRow}*${t.percent}/100)`,
+    t.amount,
+  ));
+  const beforeRounding = `J${taxableRow}${taxRows.map(row => `+J${row}`).join('')}`;
+  const digits = ROUNDING_DIGITS[pricing.rounding];
+  const roundRow = addRow('Round Off', digits === null ? '0' : `ROUND(${beforeRounding},${digits})-(${beforeRounding})`, breakdown.roundOff);
+  const totalRow = addRow('Grand Total', `${beforeRounding}+J${roundRow}`, breakdown.grandTotal, true);
+  sheet.getCell(`J${totalRow}`).border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+  return totalRow;
+}
+
+function addSummarySheet(workbook: ExcelJS.Workbook, tender: Tender, totalRow: number) {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [{ width: 28 }, { width: 40 }];
+  const rows: [string, ExcelJS.CellValue][] = [
+    ['Tender', tender.name],
+    ['Client', tender.client],
+    ['Reference No.', tender.referenceNumber],
+    ['Date', tender.date],
+    ['Total Items', tender.items.length],
+    ...(Object.keys(STATUS_LABELS) as TenderItem['status'][])
+      .filter(status => status !== 'pending')
+      .map((status): [string, ExcelJS.CellValue] => [`  ${STATUS_LABELS[status]}`, tender.items.filter(i => i.status === status).length]),
+    ['Grand Total', { formula: `'${BOQ_SHEET}'!J${totalRow}`, result: tender.total }],
+  ];
+  rows.forEach(values => sheet.addRow(values));
+  sheet.getColumn(1).font = { bold: true };
+  const grand = sheet.lastRow!;
+  grand.getCell(2).numFmt = MONEY_FORMAT;
+  grand.font = { bold: true, size: 13 };
+}
+
+function addSourcesSheet(workbook: ExcelJS.Workbook, tender: Tender) {
+  const sheet = workbook.addWorksheet('SOR Sources');
+  sheet.columns = [{ width: 28 }, { width: 60 }, { width: 14 }, { width: 18, style: { numFmt: MONEY_FORMAT } }];
+  headerStyle(sheet.addRow(['Source', 'Rate Cards Used', 'Lines Quoted', 'Amount']));
+
+  const lastDataRow = FIRST_DATA_ROW + Math.max(tender.items.length - 1, 0);
+  const bySource = new Map<string, TenderItem[]>();
+  tender.items.forEach(i => {
+    const source = sourceOf(i);
+    if (source === UNPRICED) return;
+    if (!bySource.has(source)) bySource.set(source, []);
+    bySource.get(source)!.push(i);
+  });
+
+  bySource.forEach((items, source) => {
+    const r = sheet.rowCount + 1;
+    const names = Array.from(new Set(items.map(i => i.matchedRate?.name).filter(Boolean)));
+    sheet.addRow([
+      source,
+      names.join('; '),
+      items.length,
+      {
+        formula: `SUMIF('${BOQ_SHEET}'!N${FIRST_DATA_ROW}:N${lastDataRow},A${r},'${BOQ_SHEET}'!J${FIRST_DATA_ROW}:J${lastDataRow})`,
+        result: items.reduce((sum, i) => sum + getLineAmount(i), 0),
+      },
+    ]).alignment = { vertical: 'top', wrapText: true };
+  });
+}
+
+export function buildQuotationWorkbook(tender: Tender): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'SmartRate';
+  workbook.created = new Date();
+  // Cached formula results are only a preview; Excel recomputes everything on open
+  workbook.calcProperties.fullCalcOnLoad = true;
+  const totalRow = addBoqSheet(workbook, tender);
+  addSummarySheet(workbook, tender, totalRow);
+  addSourcesSheet(workbook, tender);
+  return workbook;
+}
+
+export async function exportQuotationXlsx(tender: Tender) {
+  const buffer = await buildQuotationWorkbook(tender).xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  downloadBlob(blob, `Quotation_${safeFileName(tender.referenceNumber || tender.name)}_${tender.date}.xlsx`);
+}
@@ -0,0 +1,201 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { QuotationProfile, Tender } from "../types.ts";
+import { breakdownRows, calculateQuoteBreakdown, getLineAmount, getQuotedRate, getQuotedUnit } from "./tenders.ts";
+import { formatQuantity, getBillableQuantity } from "./units.ts";
+import { downloadBlob, safeFileName } from "./download.ts";
+
+export const DEFAULT_QUOTATION_PROFILE: QuotationProfile = {
+  companyName: '',
+  address: '',
+  contact: '',
+  gstin: '',
+  validityDays: 90,
+  terms: [
+    'Rates are for the scope of work described against each item; any additional work will be charged extra.',
+    'Quantities are provisional and payment will be made on actual measurement at site.',
+    'Payment terms as per tender conditions.',
+  ].join('\n'),
+};
+
+const BRAND: [number, number, number] = [49, 46, 129];
+const MARGIN = 14;
+
+// The standard PDF fonts have no rupee glyph, so amounts are printed as "Rs."
+const money = (value: number) => value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve',
+  'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim();
+const belowThousand = (n: number) =>
+  n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred ${belowHundred(n % 100)}`.trim() : belowHundred(n);
+
+/**
+ * Spells an amount the way Indian quotations do, grouping by crore, lakh and thousand.
+ */
+export function amountInWords(amount: number): string {
+  // Rounded to whole paise first, so 1.996 reads as two rupees rather than one rupee and a hundred paise
+  const totalPaise = Math.round(amount * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  if (rupees === 0 && paise === 0) return 'Rupees Zero Only';
+
+  const parts: string[] = [];
+  let rest = rupees;
+  const crore = Math.floor(rest / 10000000); rest %= 10000000;
+  const lakh = Math.floor(rest / 100000); rest %= 100000;
+  const thousand = Math.floor(rest / 1000); rest %= 1000;
+  if (crore) parts.push(`${crore >= 1000 ? amountInWords(crore).replace(/^Rupees | Only$/g, '') : belowThousand(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+
+  const words = `Rupees ${parts.join(' ') || 'Zero'}`;
+  return paise ? `${words} and ${belowHundred(paise)} Paise Only` : `${words} Only`;
+}
+
+const addDays = (isoDate: string, days: number) => {
+  const date = isoDate ? new Date(isoDate) : new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+function drawLetterhead(doc: jsPDF, profile: QuotationProfile) {
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, width, 30, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(profile.companyName || 'Quotation', MARGIN, 13);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  const details = [profile.address.replace(/\s*\n\s*/g, ', '), profile.contact, profile.gstin && `GSTIN: ${profile.gstin}`].filter(Boolean);
+  details.forEach((line, i) => doc.text(line, MARGIN, 19 + i * 4, { maxWidth: width - MARGIN * 2 - 30 }));
+  if (profile.logoDataUrl) {
+    try {
+      doc.addImage(profile.logoDataUrl, width - MARGIN - 22, 4, 22, 22);
+    } catch (e) {
+      console.error("Quotation logo could not be drawn:", e);
+    }
+  }
+  doc.setTextColor(30, 41, 59);
+}
+
+export function buildQuotationPdf(tender: Tender, profile: QuotationProfile): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const quotedItems = tender.items.filter(i => getLineAmount(i) > 0);
+  const breakdown = calculateQuoteBreakdown(quotedItems, tender.pricing);
+
+  drawLetterhead(doc, profile);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('QUOTATION', MARGIN, 42);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  const meta: [string, string][] = [
+    ['To', tender.client || '-'],
+    ['Tender', tender.name],
+    ['Reference No.', tender.referenceNumber || '-'],
+    ['Date', tender.date],
+    ['Valid Until', addDays(tender.date, profile.validityDays)],
+  ];
+  meta.forEach(([label, value], i) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, MARGIN, 50 + i * 5);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, MARGIN + 28, 50 + i * 5, { maxWidth: width - MARGIN * 2 - 28 });
+  });
+
+  autoTable(doc, {
+    startY: 50 + meta.length * 5 + 4,
+    margin: { left: MARGIN, right: MARGIN, top: 36 },
+    head: [['#', 'Description', 'Qty', 'Unit', 'Rate (Rs.)', 'Amount (Rs.)']],
+    body: quotedItems.map((item, index) => [
+      String(index + 1),
+      item.requestedScope ? `${item.name}\n${item.requestedScope.slice(0, 240)}` : item.name,
+      formatQuantity(getBillableQuantity(item)),
+      getQuotedUnit(item),
+      money(getQuotedRate(item)),
+      money(getLineAmount(item)),
+    ]),
+    headStyles: { fillColor: BRAND, fontSize: 8 },
+    bodyStyles: { fontSize: 8, valign: 'top' },
+    columnStyles: {
+      0: { cellWidth: 8 },
+      2: { halign: 'right', cellWidth: 18 },
+      3: { cellWidth: 14 },
+      4: { halign: 'right', cellWidth: 24 },
+      5: { halign: 'right', cellWidth: 28 },
+    },
+    // Continuation pages keep the letterhead so every sheet is identifiable
+    didDrawPage: data => { if (data.pageNumber > 1) drawLetterhead(doc, profile); },
+  });
+
+  autoTable(doc, {
+    margin: { left: width / 2, right: MARGIN, top: 36 },
+    body: [
+      ...breakdownRows(breakdown, tender.pricing).map(([label, amount]) => [label, money(amount)]),
+      ['Grand Total', money(breakdown.grandTotal)],
+    ],
+    theme: 'plain',
+    bodyStyles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: data => { if (data.row.index === data.table.body.length - 1) data.cell.styles.fontStyle = 'bold'; },
+  });
+
+  let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - 20) {
+      doc.addPage();
+      drawLetterhead(doc, profile);
+      y = 40;
+    }
+  };
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'italic');
+  const words = doc.splitTextToSize(`Amount in words: ${amountInWords(breakdown.grandTotal)}`, width - MARGIN * 2);
+  ensureSpace(words.length * 4);
+  doc.text(words, MARGIN, y);
+  y += words.length * 4 + 6;
+
+  const terms = [
+    ...profile.terms.split('\n').map(t => t.trim()).filter(Boolean),
+    `This quotation is valid for ${profile.validityDays} days from the date above.`,
+  ].map((t, i) => `${i + 1}. ${t}`);
+  const termLines = doc.splitTextToSize(terms.join('\n'), width - MARGIN * 2);
+  ensureSpace(8 + termLines.length * 4);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Terms & Conditions', MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(termLines, MARGIN, y + 5);
+  y += 5 + termLines.length * 4 + 12;
+
+  ensureSpace(20);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`For ${profile.companyName || '________________'}`, width - MARGIN, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.text('Authorised Signatory', width - MARGIN, y + 14, { align: 'right' });
+
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7);
+    doc.setTextColor(148, 163, 184);
+    doc.text(`${tender.referenceNumber || tender.name}  |  Page ${p} of ${pages}`, width / 2, pageHeight - 8, { align: 'center' });
+  }
+  return doc;
+}
+
+export function exportQuotationPdf(tender: Tender, profile: QuotationProfile) {
+  const blob = buildQuotationPdf(tender, profile).output('blob');
+  downloadBlob(blob, `Quotation_${safeFileName(tender.referenceNumber || tender.name)}_${tender.date}.pdf`);
+}
@@ -0,0 +1,78 @@
+import { AnalysisCategory, BasicRate, RateAnalysis, SORItem } from "../types.ts";
+
+export const BASIC_RATES_STORAGE_KEY = 'smart_rate_basic_rates_v1';
+
+export const ANALYSIS_CATEGORIES: Record<AnalysisCategory, string> = {
+  material: 'Materials',
+  labour: 'Labour',
+  equipment: 'Equipment',
+};
+
+// CPWD-style analyses add contractor's overheads and profit on the bare cost
+export const emptyAnalysis = (): RateAnalysis => ({
+  outputQuantity: 1,
+  lines: [],
+  overheadPercent: 7.5,
+  profitPercent: 7.5,
+});
+
+export interface AnalysisSummary {
+  byCategory: Record<AnalysisCategory, number>;
+  cost: number;
+  overhead: number;
+  profit: number;
+  // Cost of the whole output quantity including overheads and profit
+  total: number;
+  // Composite rate per unit of the item
+  rate: number;
+  // Lines whose basic rate has since been deleted
+  missing: number;
+}
+
+const roundRate = (value: number) => Math.round(value * 100) / 100;
+
+export function summariseAnalysis(analysis: RateAnalysis, basicRates: BasicRate[]): AnalysisSummary {
+  const byId = new Map(basicRates.map(b => [b.id, b]));
+  const byCategory: Record<AnalysisCategory, number> = { material: 0, labour: 0, equipment: 0 };
+  let missing = 0;
+
+  analysis.lines.forEach(line => {
+    const basic = byId.get(line.basicRateId);
+    if (!basic) { missing++; return; }
+    byCategory[basic.category] += line.quantity * basic.rate;
+  });
+
+  const cost = byCategory.material + byCategory.labour + byCategory.equipment;
+  const overhead = cost * analysis.overheadPercent / 100;
+  const profit = cost * analysis.profitPercent / 100;
+  const total = cost + overhead + profit;
+  const rate = analysis.outputQuantity > 0 ? roundRate(total / analysis.outputQuantity) : 0;
+  return { byCategory, cost, overhead, profit, total, rate, missing };
+}
+
+export const compositeRate = (analysis: RateAnalysis, basicRates: BasicRate[]): number =>
+  summariseAnalysis(analysis, basicRates).rate;
+
+/**
+ * Brings every analysed rate card in line with the current basic rates. Cards whose rate is
+ * unchanged keep their identity so callers can tell what moved.
+ */
+export function recomputeAnalysedRates(items: SORItem[], basicRates: BasicRate[]): SORItem[] {
+  return items.map(item => {
+    if (!item.analysis) return item;
+    const rate = compositeRate(item.analysis, basicRates);
+    return rate === item.rate ? item : { ...item, rate };
+  });
+}
+
+/**
+ * Number of rate cards using each basic rate, so a resource in use is not deleted by accident.
+ */
+export function countBasicRateUsage(items: SORItem[]): Map<string, number> {
+  const usage = new Map<string, number>();
+  items.forEach(item => {
+    const ids = new Set(item.analysis?.lines.map(l => l.basicRateId));
+    ids.forEach(id => usage.set(id, (usage.get(id) ?? 0) + 1));
+  });
+  return usage;
+}
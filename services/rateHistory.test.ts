@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SORItem } from '../types.ts';
+import { getVersions, rateAsOf, withVersion } from './rateHistory.ts';
+
+const CREATED = new Date('2024-01-10T10:00:00').getTime();
+const EDITED = new Date('2024-06-01T10:00:00').getTime();
+const REPRICED = new Date('2025-01-15T10:00:00').getTime();
+
+const created = (): SORItem => withVersion(null, {
+  id: 'brick', name: 'Brick work', unit: 'cum', rate: 6000, scopeOfWork: 'Bricks in CM 1:6', source: 'DSR 2023', timestamp: CREATED,
+}, 'Asha', 'created');
+
+const at = (time: number) => {
+  vi.useFakeTimers();
+  vi.setSystemTime(time);
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withVersion', () => {
+  it('starts a new card with one version dated when it was added', () => {
+    const card = created();
+    expect(getVersions(card)).toHaveLength(1);
+    expect(card.updatedAt).toBe(CREATED);
+  });
+
+  it('records a rename, moving the last change but not the price date', () => {
+    at(EDITED);
+    const card = withVersion(created(), { ...created(), name: 'Brick work renamed' }, 'Asha', 'edited');
+    expect(getVersions(card).map(v => v.name)).toEqual(['Brick work', 'Brick work renamed']);
+    expect(card.timestamp).toBe(CREATED);
+    expect(card.updatedAt).toBe(EDITED);
+  });
+
+  it('moves the price date when the rate changes', () => {
+    at(REPRICED);
+    const card = withVersion(created(), { ...created(), rate: 6400 }, 'Asha', 'edited');
+    expect(card.timestamp).toBe(REPRICED);
+    expect(card.updatedAt).toBe(REPRICED);
+  });
+
+  it('leaves an unchanged card as it was', () => {
+    at(EDITED);
+    const card = withVersion(created(), created(), 'Asha', 'edited');
+    expect(getVersions(card)).toHaveLength(1);
+    expect(card.updatedAt).toBe(CREATED);
+  });
+
+  it('moves the last change for fields outside the history', () => {
+    at(EDITED);
+    const card = withVersion(created(), { ...created(), subCategory: 'Superstructure' }, 'Asha', 'edited');
+    expect(getVersions(card)).toHaveLength(1);
+    expect(card.updatedAt).toBe(EDITED);
+  });
+});
+
+describe('rateAsOf', () => {
+  it('gives the card as it stood on a date', () => {
+    at(EDITED);
+    const renamed = withVersion(created(), { ...created(), name: 'Brick work renamed' }, 'Asha', 'edited');
+    at(REPRICED);
+    const repriced = withVersion(renamed, { ...renamed, rate: 6400 }, 'Asha', 'edited');
+
+    expect(rateAsOf(repriced, CREATED - 1)).toBeNull();
+    expect(rateAsOf(repriced, EDITED - 1)).toMatchObject({ name: 'Brick work', rate: 6000, timestamp: CREATED });
+    expect(rateAsOf(repriced, REPRICED - 1)).toMatchObject({ name: 'Brick work renamed', rate: 6000, timestamp: CREATED });
+    expect(rateAsOf(repriced, REPRICED)).toMatchObject({ rate: 6400, timestamp: REPRICED });
+  });
+});
@@ -0,0 +1,97 @@
+import { RateChange, RateVersion, SORItem } from "../types.ts";
+
+// Repeated edits of the same kind by the same person within this window are folded into one version,
+// so typing a price does not leave a version per keystroke
+const COALESCE_MS = 60 * 1000;
+
+const snapshot = (item: SORItem, validFrom: number, changedBy: string, change: RateChange): RateVersion => ({
+  rate: item.rate,
+  unit: item.unit,
+  scopeOfWork: item.scopeOfWork,
+  source: item.source,
+  name: item.name,
+  itemCode: item.itemCode,
+  chapter: item.chapter,
+  tags: item.tags,
+  validFrom,
+  changedBy,
+  change,
+});
+
+const tagList = (tags: string[] | undefined) => (tags ?? []).join('\n');
+
+// A version from before names, codes and tags were recorded only compares on the fields it has
+const sameTerms = (version: RateVersion, item: SORItem) =>
+  version.rate === item.rate && version.unit === item.unit && version.scopeOfWork === item.scopeOfWork && version.source === item.source
+  && (version.name === undefined || version.name === item.name)
+  && (version.name === undefined || ((version.itemCode ?? '') === (item.itemCode ?? '') && (version.chapter ?? '') === (item.chapter ?? '')
+    && tagList(version.tags) === tagList(item.tags)));
+
+// Everything but the bookkeeping, to tell whether a save changed the card at all
+const contentOf = ({ versions, timestamp, updatedAt, ...card }: SORItem) => JSON.stringify(card);
+
+// The card as a tender line keeps it; the history stays with the card in the database
+export const withoutHistory = ({ versions, ...card }: SORItem): SORItem => card;
+
+/**
+ * Versions of a rate card, oldest first. Cards saved before versioning get a single version from their timestamp.
+ */
+export function getVersions(item: SORItem): RateVersion[] {
+  return item.versions && item.versions.length > 0 ? item.versions : [snapshot(item, item.timestamp, '', 'created')];
+}
+
+// When the price in force at versions[index] was set, looking past later versions that kept it
+function priceSetAt(versions: RateVersion[], index: number): number {
+  let first = index;
+  while (first > 0 && versions[first - 1].rate === versions[index].rate) first--;
+  return versions[first].validFrom;
+}
+
+/**
+ * Records `updated` as the latest version of a rate card. Pass `previous` as null for a new card.
+ * Changes that leave the rate, unit, scope, source, name, code, chapter and tags as they were are not
+ * recorded as a version. The card's timestamp stays with the date its price was set, while `updatedAt`
+ * moves on any change.
+ */
+export function withVersion(previous: SORItem | null, updated: SORItem, changedBy: string, change: RateChange): SORItem {
+  const now = Date.now();
+  if (!previous) return { ...updated, updatedAt: updated.timestamp, versions: [snapshot(updated, updated.timestamp, changedBy, 'created')] };
+
+  const updatedAt = contentOf(previous) === contentOf(updated) ? previous.updatedAt : now;
+  const versions = getVersions(previous);
+  const last = versions[versions.length - 1];
+  if (sameTerms(last, updated)) return { ...updated, updatedAt, versions };
+
+  const coalesce = last.change === change && last.changedBy === changedBy && now - last.validFrom < COALESCE_MS && versions.length > 1;
+  const next = snapshot(updated, now, changedBy, change);
+  const kept = coalesce ? [...versions.slice(0, -1), next] : [...versions, next];
+  return { ...updated, timestamp: priceSetAt(kept, kept.length - 1), updatedAt, versions: kept };
+}
+
+/**
+ * A rate card as it stood at `time`, or null if it did not exist yet. Its timestamp is when that price was set.
+ */
+export function rateAsOf(item: SORItem, time: number): SORItem | null {
+  const versions = getVersions(item);
+  let index = versions.length - 1;
+  while (index >= 0 && versions[index].validFrom > time) index--;
+  if (index < 0) return null;
+  const version = versions[index];
+  return {
+    ...item,
+    rate: version.rate,
+    unit: version.unit,
+    scopeOfWork: version.scopeOfWork,
+    source: version.source,
+    ...(version.name !== undefined && { name: version.name, itemCode: version.itemCode, chapter: version.chapter, tags: version.tags }),
+    timestamp: priceSetAt(versions, index),
+  };
+}
+
+export const endOfDay = (date: string): number => new Date(`${date}T23:59:59.999`).getTime();
+
+export function ratesAsOf(items: SORItem[], date: string | undefined): SORItem[] {
+  if (!date) return items;
+  const time = endOfDay(date);
+  return items.flatMap(item => rateAsOf(item, time) ?? []);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { SORItem } from '../types.ts';
+import { EMPTY_SEARCH, buildSearchIndex, searchRates } from './rateSearch.ts';
+
+const card = (id: string, name: string, fields: Partial<SORItem> = {}): SORItem =>
+  ({ id, name, unit: 'cum', rate: 100, scopeOfWork: '', source: 'DSR 2023', timestamp: 0, ...fields });
+
+const RATES = [
+  card('1', 'Firebrick lining', { itemCode: '7.2', rate: 900 }),
+  card('2', 'Brick work in CM 1:6', { itemCode: '6.1', rate: 6500, tags: ['masonry'] }),
+  card('3', 'Cement plaster 12 mm', { itemCode: '13.1', unit: 'sqm', rate: 300, scopeOfWork: 'On brick walls' }),
+];
+
+const search = (query: string, fields = {}) => searchRates(buildSearchIndex(RATES), { ...EMPTY_SEARCH, query, ...fields }).map(r => r.id);
+
+describe('searchRates', () => {
+  it('finds words anywhere in a field, ranking word starts and names first', () => {
+    expect(search('brick')).toEqual(['2', '1', '3']);
+    expect(search('rick')).toEqual(['1', '2', '3']);
+  });
+
+  it('needs every word of the query', () => {
+    expect(search('brick 1:6')).toEqual(['2']);
+    expect(search('brick steel')).toEqual([]);
+  });
+
+  it('looks short words up without the index', () => {
+    expect(search('cm')).toEqual(['2']);
+  });
+
+  it('searches codes and tags', () => {
+    expect(search('13.')).toEqual(['3']);
+    expect(search('mason')).toEqual(['2']);
+  });
+
+  it('filters and sorts', () => {
+    expect(search('', { units: ['sqm'] })).toEqual(['3']);
+    expect(search('', { minRate: 500, sort: 'rate-desc' })).toEqual(['2', '1']);
+  });
+});
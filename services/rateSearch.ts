@@ -0,0 +1,159 @@
+import { RateSearch, RateSort, SORItem } from "../types.ts";
+import { normaliseUnit } from "./units.ts";
+import { compareRateCards, sourceLabel } from "./catalogue.ts";
+import { endOfDay, getVersions } from "./rateHistory.ts";
+
+export const EMPTY_SEARCH: RateSearch = { query: '', units: [], sources: [], sort: 'relevance' };
+
+export const RATE_SORT_LABELS: Record<RateSort, string> = {
+  relevance: 'Best match',
+  code: 'Item code',
+  name: 'Name (A–Z)',
+  'rate-asc': 'Rate: low to high',
+  'rate-desc': 'Rate: high to low',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+};
+
+// A term found in the code or name says more about a card than one buried in its scope of work
+const WEIGHTS = { code: 8, name: 4, tags: 3, source: 1, scope: 1 };
+
+interface IndexedRate {
+  item: SORItem;
+  position: number;
+  code: string;
+  name: string;
+  tags: string;
+  source: string;
+  scope: string;
+  unit: string;
+  // When the card was first added; its timestamp moves with every price revision
+  added: number;
+}
+
+export interface SearchIndex {
+  entries: IndexedRate[];
+  // Positions of the entries containing each three-character run of text, in ascending order
+  grams: Map<string, number[]>;
+  units: string[];
+  sources: string[];
+}
+
+// Length of the runs indexed; shorter query words are looked for in every entry
+const GRAM = 3;
+
+function gramsOf(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + GRAM <= text.length; i++) grams.add(text.slice(i, i + GRAM));
+  return grams;
+}
+
+// Both lists ascending
+function intersect(a: number[], b: number[]): number[] {
+  const both: number[] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) { both.push(a[i]); i++; j++; }
+    else if (a[i] < b[j]) i++;
+    else j++;
+  }
+  return both;
+}
+
+const unitLabel = (item: SORItem) => normaliseUnit(item.unit) || 'No unit';
+
+/**
+ * Lower-cases every searchable field once and indexes its three-character runs, so each keystroke only
+ * scores the cards that contain every query word.
+ */
+export function buildSearchIndex(items: SORItem[]): SearchIndex {
+  const entries: IndexedRate[] = items.map((item, position) => ({
+    item,
+    position,
+    code: (item.itemCode ?? '').toLowerCase(),
+    name: item.name.toLowerCase(),
+    tags: (item.tags ?? []).join(' ').toLowerCase(),
+    source: `${item.source} ${item.chapter ?? ''} ${item.subCategory ?? ''}`.toLowerCase(),
+    scope: item.scopeOfWork.toLowerCase(),
+    unit: unitLabel(item),
+    added: getVersions(item)[0].validFrom,
+  }));
+  const grams = new Map<string, number[]>();
+  entries.forEach(entry => {
+    gramsOf([entry.code, entry.name, entry.tags, entry.source, entry.scope].join('\n')).forEach(gram => {
+      if (!grams.has(gram)) grams.set(gram, []);
+      grams.get(gram)!.push(entry.position);
+    });
+  });
+  const distinct = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+  return { entries, grams, units: distinct(entries.map(e => e.unit)), sources: distinct(items.map(sourceLabel)) };
+}
+
+// Entries holding every run of every query word long enough to have one; scoring then checks the words themselves
+function candidates(index: SearchIndex, terms: string[]): IndexedRate[] {
+  const lists = terms.flatMap(term => Array.from(gramsOf(term))).map(gram => index.grams.get(gram) ?? []);
+  if (lists.length === 0) return index.entries;
+  lists.sort((a, b) => a.length - b.length);
+  return lists.slice(1).reduce(intersect, lists[0]).map(position => index.entries[position]);
+}
+
+// Hits at the start of a word count double, so "brick" ranks "Brick work" above "Firebrick lining"
+function fieldScore(text: string, term: string, weight: number): number {
+  const at = text.indexOf(term);
+  if (at === -1) return 0;
+  return at === 0 || !/[a-z0-9]/.test(text[at - 1]) ? weight * 2 : weight;
+}
+
+function termScore(entry: IndexedRate, term: string): number {
+  return (entry.code.startsWith(term) ? WEIGHTS.code * 2 : 0)
+    + fieldScore(entry.name, term, WEIGHTS.name)
+    + fieldScore(entry.tags, term, WEIGHTS.tags)
+    + fieldScore(entry.source, term, WEIGHTS.source)
+    + fieldScore(entry.scope, term, WEIGHTS.scope);
+}
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const activeFilterCount = (search: RateSearch): number =>
+  [search.units.length > 0, search.sources.length > 0, search.minRate !== undefined || search.maxRate !== undefined, !!(search.addedFrom || search.addedTo)]
+    .filter(Boolean).length;
+
+/**
+ * Rate cards matching every word of the query in any field, within the filters, in the chosen order.
+ */
+export function searchRates(index: SearchIndex, search: RateSearch): SORItem[] {
+  const terms = search.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const units = new Set(search.units);
+  const sources = new Set(search.sources);
+  const from = search.addedFrom ? dayStart(search.addedFrom) : -Infinity;
+  const to = search.addedTo ? endOfDay(search.addedTo) : Infinity;
+
+  const hits: { entry: IndexedRate; score: number }[] = [];
+  for (const entry of candidates(index, terms)) {
+    const { item } = entry;
+    if (units.size && !units.has(entry.unit)) continue;
+    if (sources.size && !sources.has(sourceLabel(item))) continue;
+    if (search.minRate !== undefined && item.rate < search.minRate) continue;
+    if (search.maxRate !== undefined && item.rate > search.maxRate) continue;
+    if (entry.added < from || entry.added > to) continue;
+
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      const s = termScore(entry, term);
+      if (s === 0) { matchesAll = false; break; }
+      score += s;
+    }
+    if (matchesAll) hits.push({ entry, score });
+  }
+
+  const byOrder: Record<RateSort, (a: typeof hits[number], b: typeof hits[number]) => number> = {
+    relevance: (a, b) => b.score - a.score || a.entry.position - b.entry.position,
+    code: (a, b) => compareRateCards(a.entry.item, b.entry.item),
+    name: (a, b) => a.entry.name.localeCompare(b.entry.name),
+    'rate-asc': (a, b) => a.entry.item.rate - b.entry.item.rate,
+    'rate-desc': (a, b) => b.entry.item.rate - a.entry.item.rate,
+    newest: (a, b) => b.entry.added - a.entry.added,
+    oldest: (a, b) => a.entry.added - b.entry.added,
+  };
+  return hits.sort(byOrder[search.sort]).map(h => h.entry.item);
+}
@@ -0,0 +1,156 @@
+import { SORItem } from "../types.ts";
+
+const DB_NAME = 'smart_rate';
+const RATES_STORE = 'rates';
+// Rate cards used to live in a single localStorage blob under this key
+const LEGACY_STORAGE_KEY = 'smart_rate_sor_v2';
+
+/**
+ * Schema steps, applied in order from the version a browser already has. Append a step to change the
+ * schema; the database version is the number of steps.
+ */
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  db => { db.createObjectStore(RATES_STORE, { keyPath: 'id' }); },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// Cards are stored with their place in the list, since the store itself is ordered by id
+export interface StoredRate {
+  id: string;
+  position: number;
+  item: SORItem;
+}
+
+export class StorageFullError extends Error {
+  constructor(what = 'rate card changes') {
+    super(`Browser storage is full, so the latest ${what} were not saved. Delete rate cards or tenders you no longer need or free up storage for this site, then make the change again.`);
+    this.name = 'StorageFullError';
+  }
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Writes the tenders, settings and other small stores kept in localStorage. A full quota is thrown
+ * as a `StorageFullError` naming `what` was lost, so the page can report it instead of crashing.
+ */
+export function saveToLocalStorage(key: string, value: unknown, what: string): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    throw isQuotaError(e) ? new StorageFullError(what) : e;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) MIGRATIONS[version](request.result);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Rate storage is being upgraded in another tab. Close other SmartRate tabs and reload.'));
+  });
+  return dbPromise;
+}
+
+function transact(db: IDBDatabase, mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RATES_STORE, mode);
+    const fail = () => reject(isQuotaError(tx.error) ? new StorageFullError() : tx.error);
+    tx.oncomplete = () => resolve();
+    tx.onabort = fail;
+    tx.onerror = fail;
+    try {
+      work(tx.objectStore(RATES_STORE));
+    } catch (e) {
+      reject(isQuotaError(e) ? new StorageFullError() : e);
+    }
+  });
+}
+
+function readAll(db: IDBDatabase): Promise<StoredRate[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(RATES_STORE, 'readonly').objectStore(RATES_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as StoredRate[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// What the database holds, as last loaded or written; saves only send the difference
+let persisted: SORItem[] = [];
+// Stored position of each card. A card keeps its position for life, so deleting one rewrites nothing else
+let positions = new Map<string, number>();
+let queue: Promise<void> = Promise.resolve();
+
+export interface RateChanges {
+  put: StoredRate[];
+  remove: string[];
+}
+
+/**
+ * Cards added or changed since `previous`, and ids no longer present. State updates keep unchanged
+ * cards as the same objects, so an identity check is enough. New cards are placed after every stored one.
+ */
+export function diffRates(previous: SORItem[], next: SORItem[], stored: Map<string, number>): RateChanges {
+  const before = new Map(previous.map(item => [item.id, item]));
+  const kept = new Set(next.map(item => item.id));
+  let nextPosition = 0;
+  stored.forEach(position => { nextPosition = Math.max(nextPosition, position + 1); });
+  return {
+    put: next.flatMap(item => before.get(item.id) === item
+      ? []
+      : [{ id: item.id, position: stored.get(item.id) ?? nextPosition++, item }]),
+    remove: previous.filter(item => !kept.has(item.id)).map(item => item.id),
+  };
+}
+
+/**
+ * Loads every rate card, first moving any left in localStorage by older versions into the database.
+ */
+export async function loadRates(): Promise<SORItem[]> {
+  const db = await openDatabase();
+  let stored = await readAll(db);
+
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    // A database that already has cards is newer than anything left behind in localStorage
+    if (stored.length === 0) {
+      const items: SORItem[] = JSON.parse(legacy);
+      stored = items.map((item, position) => ({ id: item.id, position, item }));
+      await transact(db, 'readwrite', store => stored.forEach(record => store.put(record)));
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  stored.sort((a, b) => a.position - b.position);
+  persisted = stored.map(record => record.item);
+  positions = new Map(stored.map(record => [record.id, record.position]));
+  return persisted;
+}
+
+/**
+ * Writes the cards that changed since the last save. Saves run one after another, and a failed save
+ * is retried as part of the next one.
+ */
+export function saveRates(items: SORItem[]): Promise<void> {
+  const run = queue.then(async () => {
+    const { put, remove } = diffRates(persisted, items, positions);
+    if (put.length === 0 && remove.length === 0) return;
+    const db = await openDatabase();
+    await transact(db, 'readwrite', store => {
+      put.forEach(record => store.put(record));
+      remove.forEach(id => store.delete(id));
+    });
+    persisted = items;
+    put.forEach(record => positions.set(record.id, record.position));
+    remove.forEach(id => positions.delete(id));
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,96 @@
+import { MatchTarget, SORItem } from "../types.ts";
+import { rankLocalMatches, tokenize } from "./localMatcher.ts";
+
+// Rate cards put in front of the matcher for each tender line
+export const DEFAULT_SHORTLIST_SIZE = 25;
+export const MAX_SHORTLIST_SIZE = 200;
+
+// A word in the name says more about a card than one in its scope; trigrams of name words catch misspellings
+const NAME_WEIGHT = 3;
+const SCOPE_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+// Cards pulled from the index per shortlist place, before the finer similarity score picks the shortlist
+const RERANK_FACTOR = 4;
+
+interface Posting {
+  index: number;
+  weight: number;
+}
+
+export interface RetrievalIndex {
+  items: SORItem[];
+  postings: Map<string, Posting[]>;
+}
+
+const nameTrigrams = (tokens: string[]): string[] =>
+  tokens.flatMap(token => {
+    const padded = ` ${token} `;
+    return Array.from({ length: padded.length - 2 }, (_, i) => `#${padded.slice(i, i + 3)}`);
+  });
+
+// Each term once, with the highest weight it appears under
+function weighTerms(name: string, scope: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (list: string[], weight: number) =>
+    list.forEach(term => terms.set(term, Math.max(terms.get(term) ?? 0, weight)));
+  const nameTokens = tokenize(name);
+  add(tokenize(scope), SCOPE_WEIGHT);
+  add(nameTrigrams(nameTokens), TRIGRAM_WEIGHT);
+  add(nameTokens, NAME_WEIGHT);
+  return terms;
+}
+
+/**
+ * An inverted index over rate card names and scopes, built once per set of rates.
+ */
+export function buildRetrievalIndex(items: SORItem[]): RetrievalIndex {
+  const postings = new Map<string, Posting[]>();
+  items.forEach((item, index) => {
+    weighTerms(item.name, item.scopeOfWork).forEach((weight, term) => {
+      if (!postings.has(term)) postings.set(term, []);
+      postings.get(term)!.push({ index, weight });
+    });
+  });
+  return { items, postings };
+}
+
+// Matching a tender line by line looks up the same rates many times
+const indexes = new WeakMap<SORItem[], RetrievalIndex>();
+
+export function getRetrievalIndex(items: SORItem[]): RetrievalIndex {
+  let index = indexes.get(items);
+  if (!index) {
+    index = buildRetrievalIndex(items);
+    indexes.set(items, index);
+  }
+  return index;
+}
+
+/**
+ * The `size` rate cards most plausibly equivalent to a tender line, best first. Cards sharing rare words
+ * with the line are gathered from the index, then ranked by the same similarity the offline matcher uses.
+ */
+export function shortlist(index: RetrievalIndex, target: MatchTarget, size: number): SORItem[] {
+  const total = index.items.length;
+  if (total <= size) return rankLocalMatches(target, index.items, total).map(r => r.item);
+
+  const scores = new Float64Array(total);
+  const hits: number[] = [];
+  weighTerms(target.name, target.requestedScope).forEach((queryWeight, term) => {
+    const list = index.postings.get(term);
+    if (!list) return;
+    // Rarer terms separate cards better, as in tf-idf
+    const idf = Math.log(1 + total / list.length);
+    list.forEach(({ index: i, weight }) => {
+      if (scores[i] === 0) hits.push(i);
+      scores[i] += queryWeight * weight * idf;
+    });
+  });
+
+  const pool = hits
+    .sort((a, b) => scores[b] - scores[a])
+    .slice(0, size * RERANK_FACTOR)
+    .map(i => index.items[i]);
+  return rankLocalMatches(target, pool, size).map(r => r.item);
+}
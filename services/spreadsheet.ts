@@ -0,0 +1,191 @@
+import ExcelJS from "exceljs";
+import { ParsedTenderLine, SORItem } from "../types.ts";
+import { normaliseUnit } from "./units.ts";
+import { parseTags } from "./catalogue.ts";
+
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+export interface ImportField<K extends string = string> {
+  key: K;
+  label: string;
+  required: boolean;
+  // Header words that usually identify this column
+  synonyms: string[];
+}
+
+// Column index per field, or null when the field is not present in the sheet
+export type ColumnMapping<K extends string = string> = Record<K, number | null>;
+
+export type RateImportKey = 'name' | 'unit' | 'rate' | 'scopeOfWork' | 'source' | 'itemCode' | 'chapter' | 'subCategory' | 'tags';
+export type TenderImportKey = 'name' | 'quantity' | 'unit' | 'requestedScope' | 'estimatedRate';
+
+export const RATE_IMPORT_FIELDS: ImportField<RateImportKey>[] = [
+  { key: 'name', label: 'Item Name', required: true, synonyms: ['item', 'name', 'description of item', 'particulars', 'item description'] },
+  { key: 'unit', label: 'Unit', required: true, synonyms: ['unit', 'uom', 'units'] },
+  { key: 'rate', label: 'Rate', required: true, synonyms: ['rate', 'unit rate', 'price', 'amount per unit', 'rate (rs)', 'rate in rs'] },
+  { key: 'scopeOfWork', label: 'Scope of Work', required: false, synonyms: ['scope', 'scope of work', 'specification', 'description', 'details'] },
+  { key: 'source', label: 'Source', required: false, synonyms: ['source', 'reference', 'sor', 'ref', 'schedule'] },
+  { key: 'itemCode', label: 'Item Code', required: false, synonyms: ['item no', 'item code', 'code', 'sl no', 's no', 'item number'] },
+  { key: 'chapter', label: 'Chapter', required: false, synonyms: ['chapter', 'category', 'head', 'section'] },
+  { key: 'subCategory', label: 'Sub-category', required: false, synonyms: ['sub category', 'sub-category', 'sub head', 'subcategory'] },
+  { key: 'tags', label: 'Tags', required: false, synonyms: ['tags', 'keywords'] },
+];
+
+export const TENDER_IMPORT_FIELDS: ImportField<TenderImportKey>[] = [
+  { key: 'name', label: 'Item Name', required: true, synonyms: ['item', 'name', 'description of item', 'particulars', 'item description'] },
+  { key: 'quantity', label: 'Quantity', required: true, synonyms: ['qty', 'quantity', 'qnty', 'quantities'] },
+  { key: 'unit', label: 'Unit', required: false, synonyms: ['unit', 'uom', 'units'] },
+  { key: 'requestedScope', label: 'Scope of Work', required: false, synonyms: ['scope', 'scope of work', 'specification', 'description', 'details'] },
+  { key: 'estimatedRate', label: 'Estimated Rate', required: false, synonyms: ['rate', 'estimated rate', 'est rate', 'unit rate', 'price'] },
+];
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+/**
+ * Reads every sheet of an .xlsx or .csv file into plain text cells.
+ */
+export async function readSpreadsheet(file: File): Promise<SheetData[]> {
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    return [{ name: file.name, rows: parseCsv(text) }];
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook.worksheets.map(sheet => {
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: true }, row => {
+      const cells: string[] = [];
+      for (let c = 1; c <= sheet.columnCount; c++) cells.push(row.getCell(c).text.trim());
+      rows.push(cells);
+    });
+    return { name: sheet.name, rows };
+  });
+}
+
+/**
+ * The first row with at least two filled cells is taken to be the header.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const index = rows.findIndex(r => r.filter(c => c.trim() !== '').length >= 2);
+  return index === -1 ? 0 : index;
+}
+
+export function guessMapping<K extends string>(headers: string[], fields: ImportField<K>[]): ColumnMapping<K> {
+  const normalised = headers.map(h => h.toLowerCase().replace(/[^a-z0-9() ]+/g, ' ').replace(/\s+/g, ' ').trim());
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping<K>;
+
+  // Exact header matches first, then headers that merely contain a synonym
+  for (const pass of ['exact', 'partial'] as const) {
+    for (const field of fields) {
+      if (mapping[field.key] !== undefined && mapping[field.key] !== null) continue;
+      const index = normalised.findIndex((h, i) => !taken.has(i) && field.synonyms.some(s => pass === 'exact' ? h === s : h.includes(s)));
+      mapping[field.key] = index === -1 ? null : index;
+      if (index !== -1) taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Reads a number the way it is typically written in an Indian SOR or BOQ ("₹ 1,25,000.50", "Rs. 450/-").
+ */
+export function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/rs\.?|inr|₹|\/-|,|\s/gi, '');
+  if (cleaned === '') return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Applies a column mapping to the data rows below the header, skipping blank rows.
+ */
+export function applyMapping<K extends string>(rows: string[][], headerRow: number, mapping: ColumnMapping<K>): Record<K, string>[] {
+  const keys = Object.keys(mapping) as K[];
+  return rows
+    .slice(headerRow + 1)
+    .filter(r => r.some(c => c.trim() !== ''))
+    .map(r => {
+      const record = {} as Record<K, string>;
+      keys.forEach(k => {
+        const index = mapping[k];
+        record[k] = index === null ? '' : (r[index] ?? '').trim();
+      });
+      return record;
+    });
+}
+
+export interface MappedRows<T> {
+  items: T[];
+  // Rows without a name or a usable number, e.g. chapter headings and sub-totals
+  skipped: number;
+}
+
+export function toRateDrafts(records: Record<RateImportKey, string>[]): MappedRows<Omit<SORItem, 'id' | 'timestamp'>> {
+  const items: Omit<SORItem, 'id' | 'timestamp'>[] = [];
+  records.forEach(r => {
+    const rate = parseNumber(r.rate);
+    if (!r.name || rate === null) return;
+    items.push({
+      name: r.name,
+      unit: r.unit,
+      rate,
+      scopeOfWork: r.scopeOfWork,
+      source: r.source,
+      itemCode: r.itemCode || undefined,
+      chapter: r.chapter || undefined,
+      subCategory: r.subCategory || undefined,
+      tags: r.tags ? parseTags(r.tags) : undefined,
+    });
+  });
+  return { items, skipped: records.length - items.length };
+}
+
+export function toTenderLines(records: Record<TenderImportKey, string>[]): MappedRows<ParsedTenderLine> {
+  const items: ParsedTenderLine[] = [];
+  records.forEach(r => {
+    const quantity = parseNumber(r.quantity);
+    if (!r.name || quantity === null) return;
+    items.push({
+      name: r.name,
+      quantity,
+      unit: normaliseUnit(r.unit),
+      requestedScope: r.requestedScope,
+      estimatedRate: parseNumber(r.estimatedRate) ?? undefined,
+    });
+  });
+  return { items, skipped: records.length - items.length };
+}
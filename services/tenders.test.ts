@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { PricingAdjustments, SORItem, TenderItem } from '../types.ts';
+import { calculateQuoteBreakdown, editTenderLine, getQuotedRate } from './tenders.ts';
+import { UNADJUSTED_PRICING, roundAmount } from './pricing.ts';
+
+const rate = (value: number): SORItem =>
+  ({ id: 'r', name: 'Card', unit: 'cum', rate: value, scopeOfWork: '', source: 'DSR', timestamp: 0 });
+
+const line = (id: string, fields: Partial<TenderItem>): TenderItem =>
+  ({ id, name: `Line ${id}`, quantity: 10, unit: 'cum', requestedScope: '', status: 'matched', ...fields });
+
+const PRICING: PricingAdjustments = {
+  overheadPercent: 10,
+  profitPercent: 10,
+  labourCessPercent: 1,
+  gstSlabs: [{ id: 'exempt', label: 'Exempt', percent: 0 }, { id: 'works', label: 'Works contract', percent: 18 }],
+  defaultSlabId: 'works',
+  rounding: 'rupee',
+};
+
+describe('getQuotedRate', () => {
+  it('escalates the matched rate and prefers a manual rate', () => {
+    expect(getQuotedRate(line('1', { matchedRate: rate(100), escalationFactor: 1.1 }))).toBeCloseTo(110);
+    expect(getQuotedRate(line('1', { status: 'manual', manualRate: 80, matchedRate: rate(100) }))).toBe(80);
+    expect(getQuotedRate(line('1', { status: 'no-match' }))).toBe(0);
+  });
+});
+
+describe('calculateQuoteBreakdown', () => {
+  it('adds no markup or tax without adjustments', () => {
+    const breakdown = calculateQuoteBreakdown([line('1', { matchedRate: rate(100) })], UNADJUSTED_PRICING);
+    expect(breakdown.base).toBe(1000);
+    expect(breakdown.grandTotal).toBe(1000);
+  });
+
+  it('layers overheads, profit and cess, then taxes each line in its slab', () => {
+    const items = [line('1', { matchedRate: rate(100) }), line('2', { matchedRate: rate(50), gstSlabId: 'exempt' })];
+    const breakdown = calculateQuoteBreakdown(items, PRICING);
+    expect(breakdown.base).toBe(1500);
+    expect(breakdown.overhead).toBeCloseTo(150);
+    expect(breakdown.profit).toBeCloseTo(165);
+    expect(breakdown.labourCess).toBeCloseTo(18.15);
+    expect(breakdown.taxableValue).toBeCloseTo(1833.15);
+    // Only the first line, with its share of the markups, is taxed
+    expect(breakdown.taxes.find(t => t.percent === 18)?.taxable).toBeCloseTo(1222.1);
+    expect(breakdown.grandTotal).toBe(Math.round(1833.15 + 1222.1 * 0.18));
+    expect(breakdown.grandTotal - breakdown.roundOff).toBeCloseTo(1833.15 + 1222.1 * 0.18);
+  });
+});
+
+describe('roundAmount', () => {
+  it('rounds to the chosen step', () => {
+    expect(roundAmount(1234.56, 'none')).toBe(1234.56);
+    expect(roundAmount(1234.56, 'rupee')).toBe(1235);
+    expect(roundAmount(1234.56, 'ten')).toBe(1230);
+    expect(roundAmount(1250, 'hundred')).toBe(1300);
+  });
+});
+
+describe('editTenderLine', () => {
+  it('keeps the rate when only the quantity changes', () => {
+    const matched = line('1', { matchedRate: rate(100) });
+    const edit = editTenderLine(matched, { name: matched.name, quantity: 20, unit: 'cum', requestedScope: '' });
+    expect(edit.rematch).toBe(false);
+    expect(edit.item.matchedRate?.rate).toBe(100);
+    expect(edit.item.quantity).toBe(20);
+  });
+
+  it('asks for a new match when the description changes', () => {
+    const edit = editTenderLine(line('1', { matchedRate: rate(100) }), { name: 'Something else', quantity: 10, unit: 'cum', requestedScope: '' });
+    expect(edit.rematch).toBe(true);
+  });
+});
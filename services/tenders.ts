@@ -0,0 +1,171 @@
+import { ParsedTenderLine, PricingAdjustments, Tender, TenderDetails, TenderItem } from "../types.ts";
+import { getBillableQuantity, normaliseUnit } from "./units.ts";
+import { getLineSlab, markupFactor, roundAmount } from "./pricing.ts";
+import { withoutHistory } from "./rateHistory.ts";
+
+export const TENDERS_STORAGE_KEY = 'smart_rate_tenders_v1';
+
+/**
+ * Drops the rate card history that lines of tenders saved by earlier versions carry with their rates.
+ */
+export const withoutLineHistory = (tender: Tender): Tender => ({
+  ...tender,
+  items: tender.items.map(item => ({
+    ...item,
+    matchedRate: item.matchedRate && withoutHistory(item.matchedRate),
+    candidates: item.candidates?.map(candidate => ({ ...candidate, rate: withoutHistory(candidate.rate) })),
+  })),
+});
+
+/**
+ * Rate quoted for a line: the estimator's typed rate for manual lines, otherwise the matched rate card
+ * escalated to the tender date.
+ */
+export function getQuotedRate(item: TenderItem): number {
+  if (item.status === 'manual') return item.manualRate || 0;
+  return (item.matchedRate?.rate || 0) * (item.escalationFactor ?? 1);
+}
+
+export function getQuotedUnit(item: TenderItem): string {
+  if (item.status === 'manual') return item.unit || '';
+  return item.matchedRate?.unit || '';
+}
+
+export const getLineAmount = (item: TenderItem): number => getBillableQuantity(item) * getQuotedRate(item);
+
+export interface TaxLine {
+  percent: number;
+  taxable: number;
+  amount: number;
+}
+
+export interface QuoteBreakdown {
+  base: number;
+  overhead: number;
+  profit: number;
+  labourCess: number;
+  taxableValue: number;
+  // GST grouped by rate, lowest first
+  taxes: TaxLine[];
+  tax: number;
+  roundOff: number;
+  grandTotal: number;
+}
+
+/**
+ * Builds the quote up from the line amounts: base, overheads, profit, labour cess, GST per slab and round-off.
+ */
+export function calculateQuoteBreakdown(items: TenderItem[], pricing: PricingAdjustments): QuoteBreakdown {
+  const base = items.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const overhead = base * pricing.overheadPercent / 100;
+  const profit = (base + overhead) * pricing.profitPercent / 100;
+  const labourCess = (base + overhead + profit) * pricing.labourCessPercent / 100;
+  const taxableValue = base + overhead + profit + labourCess;
+
+  // Each line carries its share of the markups into its own GST slab
+  const factor = markupFactor(pricing);
+  const byPercent = new Map<number, number>();
+  items.forEach(item => {
+    const amount = getLineAmount(item);
+    if (amount === 0) return;
+    const { percent } = getLineSlab(item, pricing);
+    byPercent.set(percent, (byPercent.get(percent) ?? 0) + amount * factor);
+  });
+  const taxes = Array.from(byPercent, ([percent, taxable]) => ({ percent, taxable, amount: taxable * percent / 100 }))
+    .sort((a, b) => a.percent - b.percent);
+  const tax = taxes.reduce((sum, t) => sum + t.amount, 0);
+
+  const unrounded = taxableValue + tax;
+  const grandTotal = roundAmount(unrounded, pricing.rounding);
+  return { base, overhead, profit, labourCess, taxableValue, taxes, tax, roundOff: grandTotal - unrounded, grandTotal };
+}
+
+/**
+ * Labelled rows for printing a breakdown, leaving out layers that are not charged.
+ */
+export function breakdownRows(breakdown: QuoteBreakdown, pricing: PricingAdjustments): [string, number][] {
+  const rows: [string, number][] = [['Base Amount', breakdown.base]];
+  if (pricing.overheadPercent) rows.push([`Overheads @ ${pricing.overheadPercent}%`, breakdown.overhead]);
+  if (pricing.profitPercent) rows.push([`Profit @ ${pricing.profitPercent}%`, breakdown.profit]);
+  if (pricing.labourCessPercent) rows.push([`Labour Cess @ ${pricing.labourCessPercent}%`, breakdown.labourCess]);
+  breakdown.taxes.filter(t => t.percent > 0).forEach(t => rows.push([`GST @ ${t.percent}%`, t.amount]));
+  if (breakdown.roundOff) rows.push(['Round Off', breakdown.roundOff]);
+  return rows;
+}
+
+export const calculateTenderTotal = (items: TenderItem[], pricing: PricingAdjustments): number =>
+  calculateQuoteBreakdown(items, pricing).grandTotal;
+
+export function createTender(details: TenderDetails, items: TenderItem[], pricing: PricingAdjustments): Tender {
+  const now = Date.now();
+  return {
+    ...details,
+    id: crypto.randomUUID(),
+    items,
+    pricing,
+    total: calculateTenderTotal(items, pricing),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Replaces the line items of a tender and refreshes the stored total.
+ */
+export function withTenderItems(tender: Tender, items: TenderItem[]): Tender {
+  return { ...tender, items, total: calculateTenderTotal(items, tender.pricing), updatedAt: Date.now() };
+}
+
+export function withTenderPricing(tender: Tender, pricing: PricingAdjustments): Tender {
+  return { ...tender, pricing, total: calculateTenderTotal(tender.items, pricing), updatedAt: Date.now() };
+}
+
+export const newTenderLine = (line: ParsedTenderLine): TenderItem => ({
+  id: crypto.randomUUID(),
+  name: line.name,
+  quantity: line.quantity || 1,
+  unit: normaliseUnit(line.unit),
+  requestedScope: line.requestedScope,
+  estimatedRate: line.estimatedRate,
+  status: 'pending',
+});
+
+/**
+ * Applies corrected fields to a tender line. Quantity and estimate changes only re-total it;
+ * a new description or unit means the match has to be redone, unless the rate was typed in by hand.
+ */
+export function editTenderLine(item: TenderItem, line: ParsedTenderLine): { item: TenderItem; rematch: boolean } {
+  const edited = newTenderLine(line);
+  const rematch = item.status !== 'manual' && (
+    edited.name !== item.name || edited.requestedScope !== item.requestedScope || edited.unit !== (item.unit ?? '')
+  );
+  return {
+    item: { ...item, name: edited.name, quantity: edited.quantity, unit: edited.unit, requestedScope: edited.requestedScope, estimatedRate: edited.estimatedRate },
+    rematch,
+  };
+}
+
+export function moveTenderLine(items: TenderItem[], id: string, offset: number): TenderItem[] {
+  const from = items.findIndex(i => i.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= items.length) return items;
+  const moved = [...items];
+  const [line] = moved.splice(from, 1);
+  moved.splice(to, 0, line);
+  return moved;
+}
+
+/**
+ * Copies a tender under a new id so it can be reworked without touching the original.
+ */
+export function duplicateTender(tender: Tender): Tender {
+  const now = Date.now();
+  return {
+    ...tender,
+    id: crypto.randomUUID(),
+    name: `${tender.name} (Copy)`,
+    items: tender.items.map(item => ({ ...item, id: crypto.randomUUID() })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
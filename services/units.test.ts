@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TenderItem } from '../types.ts';
+import { compareUnits, getBillableQuantity, isKnownUnit, normaliseUnit } from './units.ts';
+
+describe('normaliseUnit', () => {
+  it('gives the canonical spelling of a known unit', () => {
+    expect(normaliseUnit('Cu.M')).toBe('cum');
+    expect(normaliseUnit('RMT')).toBe('m');
+    expect(normaliseUnit('per Sq. M.')).toBe('sqm');
+    expect(normaliseUnit('Nos')).toBe('nos');
+  });
+
+  it('returns an unknown unit trimmed', () => {
+    expect(normaliseUnit('  bag ')).toBe('bag');
+    expect(normaliseUnit(undefined)).toBe('');
+  });
+});
+
+describe('isKnownUnit', () => {
+  it('knows units by any of their spellings', () => {
+    expect(isKnownUnit('sqft')).toBe(true);
+    expect(isKnownUnit('brick')).toBe(false);
+  });
+});
+
+describe('compareUnits', () => {
+  it('treats a missing unit as unspecified', () => {
+    expect(compareUnits('', 'cum')).toEqual({ kind: 'unspecified', factor: 1 });
+  });
+
+  it('matches spellings of the same unit', () => {
+    expect(compareUnits('m3', 'Cu.M')).toEqual({ kind: 'same', factor: 1 });
+  });
+
+  it('converts between units of one dimension', () => {
+    const result = compareUnits('sqft', 'sqm');
+    expect(result.kind).toBe('converted');
+    expect(result.kind === 'converted' && result.factor).toBeCloseTo(0.09290304);
+  });
+
+  it('refuses units of different dimensions', () => {
+    expect(compareUnits('sqm', 'cum')).toEqual({ kind: 'incompatible' });
+  });
+
+  it('compares unknown units by their spelling', () => {
+    expect(compareUnits('Bags', 'bag')).toEqual({ kind: 'same', factor: 1 });
+    expect(compareUnits('bag', 'drum')).toEqual({ kind: 'incompatible' });
+  });
+});
+
+describe('getBillableQuantity', () => {
+  const line = (fields: Partial<TenderItem>): TenderItem =>
+    ({ id: '1', name: 'Line', quantity: 100, requestedScope: '', status: 'matched', ...fields });
+
+  it('converts the quantity into the rate unit', () => {
+    expect(getBillableQuantity(line({ unitFactor: 0.5 }))).toBe(50);
+  });
+
+  it('bills nothing for a unit mismatch', () => {
+    expect(getBillableQuantity(line({ status: 'unit-mismatch', unitFactor: 0.5 }))).toBe(0);
+  });
+});
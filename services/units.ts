@@ -0,0 +1,110 @@
+import { TenderItem } from "../types.ts";
+
+type Dimension = 'length' | 'area' | 'volume' | 'mass' | 'count' | 'set' | 'lumpsum' | 'hour' | 'day';
+
+interface UnitDefinition {
+  code: string;
+  label: string;
+  dimension: Dimension;
+  // Multiplier to the base unit of the dimension (m, sqm, cum, kg, nos...)
+  toBase: number;
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  { code: 'mm', label: 'mm', dimension: 'length', toBase: 0.001, aliases: ['mm', 'millimetre', 'millimeter'] },
+  { code: 'cm', label: 'cm', dimension: 'length', toBase: 0.01, aliases: ['cm', 'centimetre', 'centimeter'] },
+  { code: 'm', label: 'm', dimension: 'length', toBase: 1, aliases: ['m', 'mtr', 'metre', 'meter', 'rmt', 'rm', 'runningmetre', 'runningmeter', 'lm', 'lin.m'] },
+  { code: 'km', label: 'km', dimension: 'length', toBase: 1000, aliases: ['km', 'kilometre', 'kilometer'] },
+  { code: 'ft', label: 'ft', dimension: 'length', toBase: 0.3048, aliases: ['ft', 'feet', 'foot', 'rft', 'runningfeet'] },
+  { code: 'in', label: 'inch', dimension: 'length', toBase: 0.0254, aliases: ['in', 'inch', 'inches'] },
+
+  { code: 'sqm', label: 'sqm', dimension: 'area', toBase: 1, aliases: ['sqm', 'sq.m', 'sqmt', 'sqmtr', 'm2', 'm^2', 'm²', 'squaremetre', 'squaremeter'] },
+  { code: 'sqft', label: 'sqft', dimension: 'area', toBase: 0.09290304, aliases: ['sqft', 'sq.ft', 'ft2', 'ft²', 'squarefeet', 'squarefoot'] },
+  { code: 'hectare', label: 'hectare', dimension: 'area', toBase: 10000, aliases: ['ha', 'hectare'] },
+
+  { code: 'cum', label: 'cum', dimension: 'volume', toBase: 1, aliases: ['cum', 'cu.m', 'cumt', 'm3', 'm^3', 'm³', 'cubicmetre', 'cubicmeter'] },
+  { code: 'cft', label: 'cft', dimension: 'volume', toBase: 0.0283168, aliases: ['cft', 'cu.ft', 'ft3', 'ft³', 'cubicfeet', 'cubicfoot'] },
+  { code: 'l', label: 'litre', dimension: 'volume', toBase: 0.001, aliases: ['l', 'ltr', 'litre', 'liter', 'lit'] },
+  { code: 'kl', label: 'kl', dimension: 'volume', toBase: 1, aliases: ['kl', 'kilolitre', 'kiloliter'] },
+
+  { code: 'g', label: 'g', dimension: 'mass', toBase: 0.001, aliases: ['g', 'gm', 'gram'] },
+  { code: 'kg', label: 'kg', dimension: 'mass', toBase: 1, aliases: ['kg', 'kgs', 'kilogram'] },
+  { code: 'quintal', label: 'quintal', dimension: 'mass', toBase: 100, aliases: ['qtl', 'quintal'] },
+  { code: 't', label: 'tonne', dimension: 'mass', toBase: 1000, aliases: ['t', 'mt', 'ton', 'tonne', 'metricton', 'metrictonne'] },
+
+  { code: 'nos', label: 'nos', dimension: 'count', toBase: 1, aliases: ['no', 'nos', 'no.s', 'number', 'each', 'ea', 'pc', 'pcs', 'piece', 'unit'] },
+  { code: 'set', label: 'set', dimension: 'set', toBase: 1, aliases: ['set', 'sets'] },
+  { code: 'ls', label: 'LS', dimension: 'lumpsum', toBase: 1, aliases: ['ls', 'l.s', 'lumpsum', 'job'] },
+
+  // Hire charges are kept apart: a "day" means different working hours in different SORs
+  { code: 'hr', label: 'hour', dimension: 'hour', toBase: 1, aliases: ['hr', 'hrs', 'hour'] },
+  { code: 'day', label: 'day', dimension: 'day', toBase: 1, aliases: ['day', 'days'] },
+];
+
+const ALIAS_INDEX = new Map<string, UnitDefinition>();
+UNITS.forEach(u => u.aliases.forEach(a => ALIAS_INDEX.set(a, u)));
+
+const cleanUnit = (raw: string) =>
+  raw.toLowerCase().replace(/^per\s+/, '').replace(/[\s_-]+/g, '').replace(/\.$/, '');
+
+const lookupUnit = (raw?: string): UnitDefinition | undefined => {
+  if (!raw) return undefined;
+  const cleaned = cleanUnit(raw);
+  // Try the spelling as written, then without dots, then without a trailing plural "s"
+  return ALIAS_INDEX.get(cleaned)
+    ?? ALIAS_INDEX.get(cleaned.replace(/\./g, ''))
+    ?? ALIAS_INDEX.get(cleaned.replace(/\./g, '').replace(/s$/, ''));
+};
+
+export const isKnownUnit = (raw: string): boolean => lookupUnit(raw) !== undefined;
+
+/**
+ * Returns the canonical spelling for a unit (e.g. "Cu.M" -> "cum", "RMT" -> "m").
+ * Unknown units are returned trimmed so they can still be displayed.
+ */
+export function normaliseUnit(raw?: string): string {
+  if (!raw) return '';
+  return lookupUnit(raw)?.label ?? raw.trim();
+}
+
+export type UnitCompatibility =
+  | { kind: 'unspecified'; factor: 1 }
+  | { kind: 'same'; factor: 1 }
+  | { kind: 'converted'; factor: number }
+  | { kind: 'incompatible' };
+
+/**
+ * Works out how a tender quantity measured in `fromUnit` maps onto a rate quoted per `toUnit`.
+ * `factor` is the multiplier that turns the tender quantity into rate units.
+ */
+export function compareUnits(fromUnit?: string, toUnit?: string): UnitCompatibility {
+  if (!fromUnit?.trim() || !toUnit?.trim()) return { kind: 'unspecified', factor: 1 };
+
+  const from = lookupUnit(fromUnit);
+  const to = lookupUnit(toUnit);
+
+  if (!from || !to) {
+    // Unknown spellings can only be compared literally
+    const a = cleanUnit(fromUnit).replace(/s$/, '');
+    const b = cleanUnit(toUnit).replace(/s$/, '');
+    return a === b ? { kind: 'same', factor: 1 } : { kind: 'incompatible' };
+  }
+
+  if (from.dimension !== to.dimension) return { kind: 'incompatible' };
+  if (from.code === to.code) return { kind: 'same', factor: 1 };
+  return { kind: 'converted', factor: from.toBase / to.toBase };
+}
+
+/**
+ * Quantity of a tender line expressed in the unit of its matched rate.
+ * Lines flagged as unit mismatches contribute nothing to the quote.
+ */
+export function getBillableQuantity(item: TenderItem): number {
+  if (item.status === 'unit-mismatch') return 0;
+  return item.quantity * (item.unitFactor ?? 1);
+}
+
+export function formatQuantity(value: number): string {
+  return Number(value.toFixed(4)).toLocaleString();
+}
@@ -6,21 +6,242 @@ export interface SORItem {
   rate: number;
   scopeOfWork: string;
   source: string;
+  // Where the item sits in its schedule, e.g. code "2.8.1" in chapter "Earth Work"
+  itemCode?: string;
+  chapter?: string;
+  subCategory?: string;
+  tags?: string[];
+  // When the current price was set; escalation counts from here
   timestamp: number;
+  // When anything on the card last changed, so backups can tell which copy is newer
+  updatedAt?: number;
+  // When present, `rate` is the composite worked out from this analysis
+  analysis?: RateAnalysis;
+  // Every state the card has been in, oldest first; the last entry matches the fields above
+  versions?: RateVersion[];
+  // Cards sharing this id are the same item from different sources; unset cards group by identical name
+  benchmarkGroupId?: string;
+}
+
+export type RateChange = 'created' | 'edited' | 'imported' | 'analysis' | 'basic-rate';
+
+export interface RateVersion {
+  rate: number;
+  unit: string;
+  scopeOfWork: string;
+  source: string;
+  // Versions recorded before these were tracked leave them out
+  name?: string;
+  itemCode?: string;
+  chapter?: string;
+  tags?: string[];
+  validFrom: number;
+  changedBy: string;
+  change: RateChange;
+}
+
+export type AnalysisCategory = 'material' | 'labour' | 'equipment';
+
+// Price of a single resource (cement per bag, mason per day); analyses refer to it by id
+export interface BasicRate {
+  id: string;
+  name: string;
+  unit: string;
+  rate: number;
+  category: AnalysisCategory;
+  updatedAt: number;
+}
+
+export interface AnalysisLine {
+  id: string;
+  basicRateId: string;
+  quantity: number;
+}
+
+export interface RateAnalysis {
+  // Quantity of the item the lines produce, e.g. 10 for an analysis per 10 m3
+  outputQuantity: number;
+  lines: AnalysisLine[];
+  overheadPercent: number;
+  profitPercent: number;
+}
+
+export interface MatchCandidate {
+  rate: SORItem;
+  // Text similarity to the tender line, 0-1
+  score: number;
 }
 
 export interface TenderItem {
   id: string;
   name: string;
   quantity: number;
+  unit?: string;
   requestedScope: string;
   estimatedRate?: number;
   matchedRate?: SORItem;
-  status: 'pending' | 'matched' | 'review' | 'no-match';
+  // Multiplier turning `quantity` (in `unit`) into the matched rate's unit
+  unitFactor?: number;
+  // 0-1 confidence that the matched rate covers the requested scope, with the matcher's justification
+  confidence?: number;
+  matchReason?: string;
+  // Ranked alternatives the estimator can switch to
+  candidates?: MatchCandidate[];
+  // Rate typed in by the estimator, quoted per `unit` when status is 'manual'
+  manualRate?: number;
+  // Multiplier bringing the matched rate card's price up to the tender date, with how it was derived
+  escalationFactor?: number;
+  escalationBasis?: string;
+  // GST slab this line is taxed under; the tender's default slab applies when unset
+  gstSlabId?: string;
+  status: 'pending' | 'matched' | 'review' | 'no-match' | 'unit-mismatch' | 'manual';
 }
 
+// A tender line as read from pasted text or a BOQ file, before matching
+export type ParsedTenderLine = Pick<TenderItem, 'name' | 'quantity' | 'unit' | 'requestedScope' | 'estimatedRate'>;
+
 export interface MatchResult {
   isMatch: boolean;
   confidence: number;
   reason: string;
 }
+
+// Sources and chapters a tender is matched against; an empty list places no restriction
+export interface MatchScope {
+  sources: string[];
+  chapters: string[];
+}
+
+export interface TenderDetails {
+  name: string;
+  client: string;
+  date: string;
+  referenceNumber: string;
+  // Quote rate cards as they stood at the end of this day instead of their latest version
+  asOfDate?: string;
+  matchScope?: MatchScope;
+}
+
+export interface Tender extends TenderDetails {
+  id: string;
+  items: TenderItem[];
+  pricing: PricingAdjustments;
+  // Grand total after overheads, profit, cess, GST and rounding
+  total: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MatchTarget = Pick<TenderItem, 'name' | 'requestedScope'>;
+
+export type MatcherId = 'gemini' | 'local';
+
+export interface MatchThresholds {
+  // Confidence at or above which a match is quoted without review
+  matched: number;
+  // Confidence at or above which a match is offered for review; below it the line is unmatched
+  review: number;
+}
+
+// Company details and boilerplate printed on generated quotations
+export interface QuotationProfile {
+  companyName: string;
+  address: string;
+  contact: string;
+  gstin: string;
+  logoDataUrl?: string;
+  validityDays: number;
+  terms: string;
+}
+
+export interface GstSlab {
+  id: string;
+  label: string;
+  percent: number;
+}
+
+export type RoundingRule = 'none' | 'rupee' | 'ten' | 'hundred';
+
+// Layers applied on top of the quoted rates to arrive at the contract value
+export interface PricingAdjustments {
+  overheadPercent: number;
+  profitPercent: number;
+  labourCessPercent: number;
+  gstSlabs: GstSlab[];
+  defaultSlabId: string;
+  rounding: RoundingRule;
+}
+
+// Published cost index for a year, e.g. the CPWD cost index; an empty source applies to every source
+export interface CostIndex {
+  id: string;
+  source: string;
+  year: number;
+  value: number;
+}
+
+export interface EscalationSettings {
+  enabled: boolean;
+  // Compounded per year when no cost index covers a rate's source and year
+  annualPercent: number;
+  indices: CostIndex[];
+}
+
+export type BenchmarkStrategy = 'lowest' | 'median' | 'latest' | 'preferred-source' | 'trimmed-mean';
+
+// How one rate is chosen from a group of equivalent rate cards
+export interface BenchmarkSettings {
+  strategy: BenchmarkStrategy;
+  // Most trusted first; matched against the card's source text
+  preferredSources: string[];
+  // Share of rates dropped from each end for the trimmed mean
+  trimPercent: number;
+  // Rates this far below the group median are ignored as suspect; 0 turns detection off
+  lowOutlierPercent: number;
+}
+
+export type RateSort = 'relevance' | 'code' | 'name' | 'rate-asc' | 'rate-desc' | 'newest' | 'oldest';
+
+// Query and filters over the rate database; empty lists and unset bounds do not filter
+export interface RateSearch {
+  query: string;
+  units: string[];
+  sources: string[];
+  minRate?: number;
+  maxRate?: number;
+  // Inclusive yyyy-mm-dd bounds on the day a card was first added
+  addedFrom?: string;
+  addedTo?: string;
+  sort: RateSort;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  search: RateSearch;
+}
+
+// A tender description the estimator confirmed against a rate card, reused on later tenders
+export interface MatchAlias {
+  id: string;
+  // Normalised description the alias is looked up by
+  key: string;
+  description: string;
+  rateId: string;
+  learnedAt: number;
+}
+
+export interface AppSettings {
+  matcher: MatcherId;
+  thresholds: MatchThresholds;
+  // Rate cards shortlisted locally for each tender line before the matcher picks one
+  shortlistSize: number;
+  quotation: QuotationProfile;
+  // Adjustments new tenders start with
+  pricing: PricingAdjustments;
+  escalation: EscalationSettings;
+  benchmark: BenchmarkSettings;
+  savedSearches: SavedSearch[];
+  // Name recorded against rate card changes
+  userName: string;
+}